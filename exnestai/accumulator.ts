@@ -0,0 +1,149 @@
+/**
+ * ExnestAI Stream Accumulator
+ * Merges streamed chat chunks back into a complete chat completion response
+ */
+
+import type {
+  ExnestChatResponse,
+  ExnestStreamChunk,
+  ExnestToolCall,
+  ExnestToolCallDelta,
+} from "./client.services";
+
+interface AccumulatedChoice {
+  index: number;
+  role?: string;
+  content: string;
+  toolCalls: ExnestToolCallDelta[];
+  finishReason?: string;
+}
+
+/**
+ * Collects ExnestStreamChunks and rebuilds the equivalent ExnestChatResponse,
+ * including role, tool calls, finish reasons and trailing usage / exnest metadata chunks
+ */
+export class ChatStreamAccumulator {
+  private id?: string;
+  private created?: number;
+  private model?: string;
+  private usage?: ExnestChatResponse["usage"];
+  private exnest?: ExnestChatResponse["exnest"];
+  private fallback?: ExnestChatResponse["fallback"];
+  private cache?: ExnestChatResponse["cache"];
+  private choices = new Map<number, AccumulatedChoice>();
+
+  /**
+   * Consume a whole stream and return the merged response
+   */
+  static async collect(stream: AsyncIterable<ExnestStreamChunk>): Promise<ExnestChatResponse> {
+    const accumulator = new ChatStreamAccumulator();
+    for await (const chunk of stream) {
+      accumulator.add(chunk);
+    }
+    return accumulator.toResponse();
+  }
+
+  /**
+   * Merge one chunk into the accumulated state
+   */
+  add(chunk: ExnestStreamChunk): this {
+    if (chunk.id) this.id = chunk.id;
+    if (chunk.created) this.created = chunk.created;
+    if (chunk.model) this.model = chunk.model;
+    if (chunk.usage) this.usage = chunk.usage;
+    if (chunk.exnest) this.exnest = { ...this.exnest, ...chunk.exnest };
+    if (chunk.fallback) this.fallback = chunk.fallback;
+    if (chunk.cache) this.cache = chunk.cache;
+
+    for (const choice of chunk.choices || []) {
+      const index = choice.index ?? 0;
+      let current = this.choices.get(index);
+      if (!current) {
+        current = { index, content: "", toolCalls: [] };
+        this.choices.set(index, current);
+      }
+
+      const delta = choice.delta || {};
+      if (delta.role) current.role = delta.role;
+      if (delta.content) current.content += delta.content;
+      if (delta.tool_calls) mergeToolCallDeltas(current.toolCalls, delta.tool_calls);
+      if (choice.finish_reason) current.finishReason = choice.finish_reason;
+    }
+
+    return this;
+  }
+
+  /**
+   * Text accumulated so far for the first choice
+   */
+  get text(): string {
+    return this.choices.get(0)?.content || "";
+  }
+
+  /**
+   * Build the complete chat completion response from everything received so far
+   */
+  toResponse(): ExnestChatResponse {
+    const response: ExnestChatResponse = {
+      object: "chat.completion",
+      choices: [...this.choices.values()]
+        .sort((a, b) => a.index - b.index)
+        .map(choice => {
+          const toolCalls = choice.toolCalls.filter(Boolean).map(toToolCall);
+          return {
+            index: choice.index,
+            message: {
+              role: choice.role || "assistant",
+              content: choice.content || (toolCalls.length ? null : ""),
+              ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+            },
+            ...(choice.finishReason ? { finish_reason: choice.finishReason } : {}),
+          };
+        }),
+    };
+
+    if (this.id) response.id = this.id;
+    if (this.created) response.created = this.created;
+    if (this.model) response.model = this.model;
+    if (this.usage) response.usage = this.usage;
+    if (this.exnest) response.exnest = this.exnest;
+    if (this.fallback) response.fallback = this.fallback;
+    if (this.cache) response.cache = this.cache;
+
+    return response;
+  }
+}
+
+/**
+ * Merge streamed tool call fragments into the partial calls, keyed by index
+ */
+function mergeToolCallDeltas(partialCalls: ExnestToolCallDelta[], deltas: ExnestToolCallDelta[]): void {
+  for (const delta of deltas) {
+    const current = partialCalls[delta.index];
+    if (!current) {
+      partialCalls[delta.index] = {
+        index: delta.index,
+        id: delta.id,
+        type: delta.type,
+        function: { name: delta.function?.name || "", arguments: delta.function?.arguments || "" },
+      };
+      continue;
+    }
+
+    if (delta.id) current.id = delta.id;
+    if (delta.type) current.type = delta.type;
+    if (delta.function?.name) current.function!.name += delta.function.name;
+    if (delta.function?.arguments) current.function!.arguments += delta.function.arguments;
+  }
+}
+
+function toToolCall(partial: ExnestToolCallDelta): ExnestToolCall {
+  return {
+    id: partial.id || `call_${partial.index}`,
+    type: "function",
+    function: {
+      name: partial.function?.name || "",
+      arguments: partial.function?.arguments || "",
+    },
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * ExnestAI Batch Execution
+ * Runs many chat or completion jobs with bounded concurrency, progress reporting and checkpoints
+ */
+
+import type {
+  ExnestAI,
+  ExnestBaseResponse,
+  ExnestChatOptions,
+  ExnestChatResponse,
+  ExnestCompletionResponse,
+  ExnestMessage,
+} from "./client.services";
+import { ExnestError, RequestAbortedError, createExnestError, toExnestError } from "./errors";
+import { appendJsonLine, readJsonLines } from "./files";
+
+export interface ExnestBatchChatRequest {
+  type?: "chat";
+  id?: string;                   // Stable id used to match checkpoint entries (default: the input index)
+  model: string;
+  messages: ExnestMessage[];
+  options?: ExnestChatOptions;
+}
+
+export interface ExnestBatchCompletionRequest {
+  type: "completion";
+  id?: string;
+  model: string;
+  prompt: string;
+  options?: ExnestChatOptions;
+}
+
+export type ExnestBatchRequest = ExnestBatchChatRequest | ExnestBatchCompletionRequest;
+
+export type ExnestBatchResponse = ExnestChatResponse | ExnestCompletionResponse;
+
+export type ExnestBatchItemResult =
+  | { index: number; id?: string; status: "success"; response: ExnestBatchResponse; resumed: boolean; checkpointError?: Error }
+  | { index: number; id?: string; status: "error"; error: ExnestError }
+  | { index: number; id?: string; status: "skipped" };  // Not run because the batch stopped early
+
+export interface ExnestBatchUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface ExnestBatchProgress {
+  total: number;
+  completed: number;   // Succeeded plus failed, including items restored from the checkpoint
+  succeeded: number;
+  failed: number;
+  result: ExnestBatchItemResult;  // Item that just finished
+}
+
+// One finished item as stored in a checkpoint
+export interface ExnestBatchCheckpointEntry {
+  key: string;          // Request id or index
+  fingerprint: string;  // Hash of the request, so changed inputs are not restored
+  response: ExnestBatchResponse;
+}
+
+/**
+ * Persistence for finished batch items (files, databases, etc.)
+ */
+export interface ExnestBatchCheckpointStore {
+  load(): Promise<ExnestBatchCheckpointEntry[]>;
+  append(entry: ExnestBatchCheckpointEntry): Promise<void>;
+}
+
+export interface ExnestBatchOptions {
+  concurrency?: number;    // Jobs in flight at once (default: 5)
+  stopOnError?: boolean;   // Stop starting new jobs after the first failure (default: false)
+  onProgress?: (progress: ExnestBatchProgress) => void;  // Errors thrown here are ignored
+  checkpoint?: string | ExnestBatchCheckpointStore;  // JSON Lines file path or store; finished items are skipped on the next run
+  signal?: AbortSignal;    // Stop starting new jobs and cancel the ones in flight
+}
+
+export interface ExnestBatchResult {
+  results: ExnestBatchItemResult[];  // In input order
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  resumed: number;                   // Items restored from the checkpoint
+  usage: ExnestBatchUsage;           // Summed over successful items
+  costUsd: number;                   // Summed exnest.billing.actual_cost_usd of non-cached responses (requires exnestMetadata)
+}
+
+const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Appends finished batch items to a JSON Lines file (Node.js only)
+ */
+export class FileBatchCheckpoint implements ExnestBatchCheckpointStore {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<ExnestBatchCheckpointEntry[]> {
+    // An entry cut off by an interrupted run is skipped, so its item is simply redone
+    return readJsonLines<ExnestBatchCheckpointEntry>(this.path);
+  }
+
+  async append(entry: ExnestBatchCheckpointEntry): Promise<void> {
+    await appendJsonLine(this.path, entry);
+  }
+}
+
+/**
+ * Run chat and completion jobs with bounded concurrency
+ *
+ * Results keep the input order. Failed jobs (thrown errors and error responses) are reported as
+ * typed errors instead of rejecting the batch. With a checkpoint, each success is saved as it
+ * finishes and restored on the next run, so an interrupted batch only redoes unfinished and failed items.
+ * A success that could not be saved keeps its response and carries the store error as `checkpointError`.
+ */
+export async function runBatch(
+  client: ExnestAI,
+  requests: ExnestBatchRequest[],
+  options: ExnestBatchOptions = {}
+): Promise<ExnestBatchResult> {
+  const concurrency = Math.max(1, Math.floor(options.concurrency || DEFAULT_CONCURRENCY));
+  const store = typeof options.checkpoint === "string" ? new FileBatchCheckpoint(options.checkpoint) : options.checkpoint;
+  const restored = new Map<string, ExnestBatchCheckpointEntry>();
+  for (const entry of store ? await store.load() : []) {
+    restored.set(entry.key, entry);
+  }
+
+  const results: ExnestBatchItemResult[] = requests.map((request, index) => ({ index, id: request.id, status: "skipped" }));
+  const progress = { total: requests.length, completed: 0, succeeded: 0, failed: 0 };
+  const report = (result: ExnestBatchItemResult) => {
+    results[result.index] = result;
+    progress.completed++;
+    if (result.status === "success") progress.succeeded++;
+    if (result.status === "error") progress.failed++;
+    try {
+      options.onProgress?.({ ...progress, result });
+    } catch {
+      // A failing progress callback must not lose the results collected so far
+    }
+  };
+
+  const pending: number[] = [];
+  requests.forEach((request, index) => {
+    const entry = restored.get(checkpointKey(request, index));
+    if (entry && entry.fingerprint === fingerprint(request)) {
+      report({ index, id: request.id, status: "success", response: entry.response, resumed: true });
+    } else {
+      pending.push(index);
+    }
+  });
+
+  let stopped = false;
+  const worker = async () => {
+    while (!stopped && pending.length) {
+      if (options.signal?.aborted) {
+        stopped = true;
+        return;
+      }
+
+      const index = pending.shift()!;
+      const request = requests[index];
+      const error = await runJob(client, request, options.signal).then(
+        async response => {
+          if (response.error) {
+            return createExnestError(response);
+          }
+          let checkpointError: Error | undefined;
+          try {
+            await store?.append({ key: checkpointKey(request, index), fingerprint: fingerprint(request), response });
+          } catch (error) {
+            checkpointError = error instanceof Error ? error : new Error(String(error));
+          }
+          report({ index, id: request.id, status: "success", response, resumed: false, ...(checkpointError ? { checkpointError } : {}) });
+          return undefined;
+        },
+        toExnestError
+      );
+
+      if (error) {
+        report({ index, id: request.id, status: "error", error });
+        if (options.stopOnError || error instanceof RequestAbortedError) {
+          stopped = true;
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+  return summarize(results);
+}
+
+function runJob(client: ExnestAI, request: ExnestBatchRequest, signal?: AbortSignal): Promise<ExnestBatchResponse> {
+  const options = signal && !request.options?.signal ? { ...request.options, signal } : request.options;
+  return request.type === "completion"
+    ? client.completion(request.model, request.prompt, options)
+    : client.chat(request.model, request.messages, options);
+}
+
+function summarize(results: ExnestBatchItemResult[]): ExnestBatchResult {
+  const usage: ExnestBatchUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+  let costUsd = 0;
+  for (const result of results) {
+    if (result.status !== "success") continue;
+    const response: ExnestBaseResponse = result.response;
+    usage.prompt_tokens += response.usage?.prompt_tokens || 0;
+    usage.completion_tokens += response.usage?.completion_tokens || 0;
+    usage.total_tokens += response.usage?.total_tokens || 0;
+    // Cache hits repeat the billing of the request that filled the cache
+    if (!response.cache?.hit) {
+      costUsd += Number(response.exnest?.billing?.actual_cost_usd) || 0;
+    }
+  }
+
+  const count = (status: ExnestBatchItemResult["status"]) => results.filter(result => result.status === status).length;
+  return {
+    results,
+    succeeded: count("success"),
+    failed: count("error"),
+    skipped: count("skipped"),
+    resumed: results.filter(result => result.status === "success" && result.resumed).length,
+    usage,
+    costUsd,
+  };
+}
+
+function checkpointKey(request: ExnestBatchRequest, index: number): string {
+  return request.id ?? `#${index}`;
+}
+
+// djb2 over the model and input; enough to notice a changed request between runs
+function fingerprint(request: ExnestBatchRequest): string {
+  const text = JSON.stringify([request.model, request.type === "completion" ? request.prompt : request.messages]);
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
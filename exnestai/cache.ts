@@ -0,0 +1,273 @@
+/**
+ * ExnestAI Response Cache
+ * Opt-in cache for chat and completion responses and stream chunks, with pluggable stores
+ */
+
+import { loadFs } from "./files";
+import { hashString } from "./hash";
+
+// Set on responses and replayed stream chunks served from the cache
+export interface ExnestCacheInfo {
+  hit: true;
+  key: string;
+  storedAt: string;  // ISO time the response was cached
+}
+
+export interface ExnestCacheEntry {
+  value: unknown;      // Response object, or the chunks of a stream
+  storedAt: number;    // Epoch ms
+  expiresAt?: number;  // Epoch ms; unset entries never expire
+}
+
+/**
+ * Storage backend for cached responses (memory, files, databases, etc.)
+ */
+export interface ExnestCacheStore {
+  get(key: string): Promise<ExnestCacheEntry | undefined>;
+  set(key: string, entry: ExnestCacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+/**
+ * Minimal string key-value client with expiry, as offered by Redis, Valkey or Memcached clients
+ */
+export interface ExnestKeyValueClient {
+  get(key: string): Promise<string | null | undefined>;
+  set(key: string, value: string, ttlMs?: number): Promise<unknown>;
+  del(key: string): Promise<unknown>;
+}
+
+export interface ExnestCacheOptions {
+  store?: ExnestCacheStore;  // Default: MemoryCacheStore with 1000 entries
+  ttl?: number;              // Entry lifetime in ms (default: 3600000); 0 keeps entries until evicted
+  namespace?: string;        // Key prefix, to share one store between clients (default: "exnest")
+}
+
+const DEFAULT_TTL = 60 * 60 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+// Request fields that do not change the generated output
+const IGNORED_BODY_FIELDS = ["api_key", "timeout"];
+
+/**
+ * Keeps the most recently used entries in memory
+ */
+export class MemoryCacheStore implements ExnestCacheStore {
+  private readonly maxEntries: number;
+  private entries = new Map<string, ExnestCacheEntry>();
+
+  constructor(maxEntries = DEFAULT_MAX_ENTRIES) {
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<ExnestCacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    // Re-insert so the Map order stays least recently used first
+    this.entries.delete(key);
+    if (isExpired(entry)) {
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: ExnestCacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Stores one JSON file per entry in a directory (Node.js only)
+ */
+export class FileCacheStore implements ExnestCacheStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(key: string): Promise<ExnestCacheEntry | undefined> {
+    const { readFile } = await loadFs();
+    let entry: ExnestCacheEntry;
+    try {
+      entry = JSON.parse(await readFile(this.pathFor(key), "utf8"));
+    } catch (error: any) {
+      // Missing or half-written files are cache misses
+      if (error?.code === "ENOENT" || error instanceof SyntaxError) return undefined;
+      throw error;
+    }
+    if (isExpired(entry)) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: ExnestCacheEntry): Promise<void> {
+    const { mkdir, rename, writeFile } = await loadFs();
+    await mkdir(this.dir, { recursive: true });
+    // Write then rename, so concurrent readers never see a partial file
+    const path = this.pathFor(key);
+    const temporary = `${path}.${Date.now()}.${Math.random().toString(36).slice(2)}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry), "utf8");
+    await rename(temporary, path);
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await loadFs();
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const { readdir, rm } = await loadFs();
+    let files: string[];
+    try {
+      files = await readdir(this.dir);
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return;
+      throw error;
+    }
+    await Promise.all(files.filter(file => file.endsWith(".json")).map(file => rm(`${this.dir}/${file}`, { force: true })));
+  }
+
+  private pathFor(key: string): string {
+    return `${this.dir}/${key.replace(/[^\w.-]/g, "_")}.json`;
+  }
+}
+
+/**
+ * Adapts a string key-value client (Redis and the like) to ExnestCacheStore; entries are stored as JSON
+ *
+ * For example with ioredis: `{ get: key => redis.get(key), set: (key, value, ttlMs) =>
+ * ttlMs ? redis.set(key, value, "PX", ttlMs) : redis.set(key, value), del: key => redis.del(key) }`
+ */
+export class KeyValueCacheStore implements ExnestCacheStore {
+  private readonly client: ExnestKeyValueClient;
+
+  constructor(client: ExnestKeyValueClient) {
+    this.client = client;
+  }
+
+  async get(key: string): Promise<ExnestCacheEntry | undefined> {
+    const text = await this.client.get(key);
+    if (!text) {
+      return undefined;
+    }
+    const entry: ExnestCacheEntry = JSON.parse(text);
+    return isExpired(entry) ? undefined : entry;
+  }
+
+  async set(key: string, entry: ExnestCacheEntry): Promise<void> {
+    const ttlMs = entry.expiresAt !== undefined ? Math.max(1, entry.expiresAt - Date.now()) : undefined;
+    await this.client.set(key, JSON.stringify(entry), ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key);
+  }
+}
+
+/**
+ * Response cache used by the client when the `cache` option is set
+ *
+ * Keys are a stable hash of the endpoint and the request body (model, messages or prompt and
+ * generation options), so key order and transport fields such as the API key do not matter.
+ * Values are copied in and out, so callers can modify what they get back.
+ */
+export class ResponseCache {
+  private readonly store: ExnestCacheStore;
+  private readonly ttl: number;
+  private readonly namespace: string;
+
+  constructor(options: ExnestCacheOptions = {}) {
+    this.store = options.store || new MemoryCacheStore();
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.namespace = options.namespace || "exnest";
+  }
+
+  /**
+   * Cache key of a request
+   * @param endpoint - API path, e.g. "/chat/completions"
+   * @param body - Request body as sent to the API
+   */
+  keyFor(endpoint: string, body: Record<string, unknown>): string {
+    const fields = Object.fromEntries(Object.entries(body).filter(([field]) => !IGNORED_BODY_FIELDS.includes(field)));
+    return `${this.namespace}:${hashString(stableStringify([endpoint, fields]))}`;
+  }
+
+  /**
+   * Cached value and the time it was stored, or undefined on a miss
+   */
+  async get<T>(key: string): Promise<{ value: T; storedAt: number } | undefined> {
+    const entry = await this.store.get(key);
+    if (!entry || isExpired(entry)) {
+      return undefined;
+    }
+    return { value: copy(entry.value) as T, storedAt: entry.storedAt };
+  }
+
+  /**
+   * Store a value
+   * @param ttl - Lifetime in ms for this entry (default: the cache ttl)
+   */
+  async set(key: string, value: unknown, ttl = this.ttl): Promise<void> {
+    const storedAt = Date.now();
+    await this.store.set(key, { value: copy(value), storedAt, ...(ttl > 0 ? { expiresAt: storedAt + ttl } : {}) });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  /**
+   * Remove every entry (stores without clear() are left untouched)
+   */
+  async clear(): Promise<void> {
+    await this.store.clear?.();
+  }
+}
+
+/**
+ * JSON with object keys sorted, so equal values always serialize the same way
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? "null" : stableStringify(item))).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const fields = Object.keys(value)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${fields.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+function isExpired(entry: ExnestCacheEntry): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,216 @@
+/**
+ * ExnestAI Model Catalog
+ * TTL-cached access to the models API with search and filtering
+ */
+
+import type { ExnestModel, ExnestModelRequestOptions } from "./client.services";
+import { parsePricingUnit } from "./cost";
+import { RequestAbortedError, TimeoutError } from "./errors";
+
+// Model entry returned with openaiCompatible: true (OpenAI /v1/models shape)
+export interface ExnestOpenAIModel {
+  id: string;
+  object: "model";
+  created: number;
+  owned_by: string;
+}
+
+export interface ExnestModelFilter {
+  provider?: string | string[];         // Provider id or name to include
+  excludeProvider?: string | string[];  // Provider id or name to exclude
+  isActive?: boolean;
+  maxInputPrice?: number;               // Per 1M tokens, in the pricing currency
+  maxOutputPrice?: number;              // Per 1M tokens, in the pricing currency
+  minContextWindow?: number;
+  minMaxTokens?: number;
+  search?: string;                      // Case-insensitive match on name, display name, description or provider
+}
+
+export interface ExnestModelCatalogOptions {
+  ttl?: number;  // Cache lifetime in ms (default: 300000)
+}
+
+// Fetches a models API endpoint and returns the response payload, throwing on API errors
+export type ExnestModelFetcher = (endpoint: string, options: ExnestModelRequestOptions) => Promise<any>;
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+const PRICE_UNIT = 1_000_000;
+
+/**
+ * Model catalog backing getModels(), getModel() and getModelsByProvider()
+ *
+ * Responses are cached per endpoint for `ttl` ms; concurrent lookups share one request
+ * and failed lookups are not cached. The shared request runs with the client timeout; a caller's
+ * `signal` and `timeout` only end that caller's wait.
+ */
+export class ModelCatalog {
+  private readonly fetcher: ExnestModelFetcher;
+  private ttl: number;
+  private cache = new Map<string, { expiresAt: number; value: Promise<any> }>();
+
+  constructor(fetcher: ExnestModelFetcher, options: ExnestModelCatalogOptions = {}) {
+    this.fetcher = fetcher;
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+  }
+
+  /**
+   * All models
+   */
+  list(options: ExnestModelRequestOptions & { openaiCompatible: true }): Promise<ExnestOpenAIModel[]>;
+  list(options?: ExnestModelRequestOptions): Promise<ExnestModel[]>;
+  list(options: ExnestModelRequestOptions = {}): Promise<ExnestModel[] | ExnestOpenAIModel[]> {
+    return this.load(withQuery("/models", options), options).then(toList);
+  }
+
+  /**
+   * One model by name (names such as "anthropic:claude-3" are URL-encoded)
+   */
+  get(name: string, options: ExnestModelRequestOptions & { openaiCompatible: true }): Promise<ExnestOpenAIModel>;
+  get(name: string, options?: ExnestModelRequestOptions): Promise<ExnestModel>;
+  get(name: string, options: ExnestModelRequestOptions = {}): Promise<ExnestModel | ExnestOpenAIModel> {
+    return this.load(withQuery(`/models/${encodeURIComponent(name)}`, options), options).then(unwrap);
+  }
+
+  /**
+   * Models of one provider
+   */
+  byProvider(provider: string, options: ExnestModelRequestOptions & { openaiCompatible: true }): Promise<ExnestOpenAIModel[]>;
+  byProvider(provider: string, options?: ExnestModelRequestOptions): Promise<ExnestModel[]>;
+  byProvider(provider: string, options: ExnestModelRequestOptions = {}): Promise<ExnestModel[] | ExnestOpenAIModel[]> {
+    return this.load(withQuery(`/models/provider/${encodeURIComponent(provider)}`, options), options).then(toList);
+  }
+
+  /**
+   * Models matching all given filters, from the cached full list
+   */
+  async find(filter: ExnestModelFilter = {}, options: Omit<ExnestModelRequestOptions, "openaiCompatible"> = {}): Promise<ExnestModel[]> {
+    const models = await this.list(options);
+    return models.filter(model => matchesFilter(model, filter));
+  }
+
+  /**
+   * Models whose name, display name, description or provider contains the query
+   */
+  search(query: string, options: Omit<ExnestModelRequestOptions, "openaiCompatible"> = {}): Promise<ExnestModel[]> {
+    return this.find({ search: query }, options);
+  }
+
+  /**
+   * Drop all cached responses
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  setTtl(ttl: number): void {
+    this.ttl = ttl;
+    this.cache.clear();
+  }
+
+  private load(endpoint: string, options: ExnestModelRequestOptions): Promise<any> {
+    const cached = this.cache.get(endpoint);
+    if (cached && !options.refresh && cached.expiresAt > Date.now()) {
+      return forCaller(cached.value, options);
+    }
+
+    const { signal, timeout, ...shared } = options;
+    const value = this.fetcher(endpoint, shared);
+    const entry = { expiresAt: Date.now() + this.ttl, value };
+    this.cache.set(endpoint, entry);
+    value.catch(() => {
+      if (this.cache.get(endpoint) === entry) {
+        this.cache.delete(endpoint);
+      }
+    });
+    return forCaller(value, options);
+  }
+}
+
+/**
+ * Price of a model per 1M tokens
+ */
+export function pricePerMillion(model: ExnestModel, kind: "input" | "output"): number {
+  const price = Number(kind === "input" ? model.pricing?.inputPrice : model.pricing?.outputPrice);
+  if (!Number.isFinite(price)) {
+    return Number.POSITIVE_INFINITY;
+  }
+  return (price / parsePricingUnit(model.pricing?.per)) * PRICE_UNIT;
+}
+
+/**
+ * Whether a model matches every filter that is set
+ */
+export function matchesFilter(model: ExnestModel, filter: ExnestModelFilter): boolean {
+  if (filter.isActive !== undefined && model.isActive !== filter.isActive) {
+    return false;
+  }
+  if (filter.provider !== undefined && !matchesProvider(model, filter.provider)) {
+    return false;
+  }
+  if (filter.excludeProvider !== undefined && matchesProvider(model, filter.excludeProvider)) {
+    return false;
+  }
+  if (filter.maxInputPrice !== undefined && pricePerMillion(model, "input") > filter.maxInputPrice) {
+    return false;
+  }
+  if (filter.maxOutputPrice !== undefined && pricePerMillion(model, "output") > filter.maxOutputPrice) {
+    return false;
+  }
+  if (filter.minContextWindow !== undefined && !((model.limits?.contextWindow || 0) >= filter.minContextWindow)) {
+    return false;
+  }
+  if (filter.minMaxTokens !== undefined && !((model.limits?.maxTokens || 0) >= filter.minMaxTokens)) {
+    return false;
+  }
+  if (filter.search) {
+    const query = filter.search.toLowerCase();
+    const fields = [model.name, model.displayName, model.description, model.provider?.name, model.provider?.displayName];
+    if (!fields.some(field => field?.toLowerCase().includes(query))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function matchesProvider(model: ExnestModel, providers: string | string[]): boolean {
+  const wanted = (Array.isArray(providers) ? providers : [providers]).map(provider => provider.toLowerCase());
+  return [model.provider?.id, model.provider?.name].some(value => value !== undefined && wanted.includes(value.toLowerCase()));
+}
+
+function withQuery(endpoint: string, options: ExnestModelRequestOptions): string {
+  return options.openaiCompatible ? `${endpoint}?openai_compatible=true` : endpoint;
+}
+
+// The models API wraps payloads as { success, data } (or { object: "list", data } when OpenAI-compatible)
+function unwrap(payload: any): any {
+  return payload && typeof payload === "object" && "data" in payload ? payload.data : payload;
+}
+
+function toList(payload: any): any[] {
+  const data = unwrap(payload);
+  return Array.isArray(data) ? data : [];
+}
+
+// Settles with the shared lookup, or earlier once this caller's signal aborts or its timeout passes
+function forCaller<T>(value: Promise<T>, { signal, timeout }: ExnestModelRequestOptions): Promise<T> {
+  if (!signal && !timeout) {
+    return value;
+  }
+  if (signal?.aborted) {
+    return Promise.reject(new RequestAbortedError(undefined, { cause: signal.reason }));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const settle = (done: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      done();
+    };
+    const onAbort = () => settle(() => reject(new RequestAbortedError(undefined, { cause: signal!.reason })));
+    const timer = timeout
+      ? setTimeout(() => settle(() => reject(new TimeoutError(`Request timeout after ${timeout}ms`, { phase: "request" }))), timeout)
+      : undefined;
+    signal?.addEventListener("abort", onAbort, { once: true });
+    value.then(result => settle(() => resolve(result)), error => settle(() => reject(error)));
+  });
+}
@@ -3,18 +3,166 @@
  * Advanced client with full configuration options, error handling, and retry logic
  */
 
+import {
+  runTools,
+  streamTools,
+  type ExnestRunToolsOptions,
+  type ExnestRunToolsResult,
+  type ExnestToolStreamEvent,
+} from "./tools";
+import { ExnestChatStream } from "./stream";
+import { parseSSEJson } from "./sse";
+import { isContentPartArray, type ExnestMessageContent } from "./content";
+import {
+  AuthenticationError,
+  ExnestError,
+  InsufficientBalanceError,
+  InvalidRequestError,
+  NetworkError,
+  RequestAbortedError,
+  StreamError,
+  TimeoutError,
+  createExnestError,
+  toExnestError,
+  type ExnestTimeoutPhase,
+} from "./errors";
+import {
+  computeRetryDelay,
+  isRetryableResponse,
+  parseRetryAfter,
+  type ExnestRetryInfo,
+  type ExnestRetryPolicy,
+} from "./retry";
+import {
+  chatStructured,
+  type ExnestResponseFormat,
+  type ExnestStructuredOptions,
+  type ExnestStructuredResult,
+} from "./structured";
+import {
+  HeuristicTokenCounter,
+  applyContextPreflight,
+  type ExnestModelLimits,
+  type ExnestPreflightMode,
+  type TokenCounter,
+} from "./tokens";
+import {
+  CostEstimateUnavailableError,
+  CostLimitExceededError,
+  estimateRequestCost,
+  type ExnestCostEstimate,
+  type ExnestCostEstimateOptions,
+} from "./cost";
+import type { ExnestSpendContext, SpendTracker } from "./spend";
+import { ModelCatalog, type ExnestOpenAIModel } from "./catalog";
+import { ApiKeyPool, apiKeyId, maskApiKey, type ExnestApiKeyConfig, type ExnestApiKeyStatus } from "./keys";
+import {
+  RateLimiter,
+  type ExnestRateLimitPermit,
+  type ExnestRateLimiterOptions,
+  type ExnestRateLimiterStats,
+} from "./limiter";
+import {
+  AllModelsFailedError,
+  fallbackChain,
+  shouldFallback,
+  type ExnestFallbackAttempt,
+  type ExnestFallbackCondition,
+  type ExnestFallbackEvent,
+  type ExnestFallbackInfo,
+} from "./fallback";
+import {
+  AUTO_MODEL,
+  ModelRouter,
+  type ExnestModelCapability,
+  type ExnestModelRouterOptions,
+} from "./router";
+import { runBatch, type ExnestBatchOptions, type ExnestBatchRequest, type ExnestBatchResult } from "./batch";
+import { ResponseCache, type ExnestCacheInfo, type ExnestCacheOptions } from "./cache";
+import {
+  isMiddlewareError,
+  markMiddlewareError,
+  runMiddleware,
+  type ExnestMiddleware,
+  type ExnestMiddlewareContext,
+  type ExnestMiddlewareResponse,
+} from "./middleware";
+import { buildUserAgent, resolveFetch, type ExnestFetch } from "./transport";
+
 export interface ExnestClientOptions {
-  apiKey: string;
+  apiKey?: string;  // Required unless apiKeys is set
+  apiKeys?: ApiKeyPool | Array<string | ExnestApiKeyConfig>;  // Rotate over several keys (round-robin unless a pool is given)
   baseUrl?: string;
   timeout?: number;
   retries?: number;
   retryDelay?: number;
+  retryPolicy?: ExnestRetryPolicy;  // Which failures to retry and how long to wait
+  firstTokenTimeout?: number;  // Streaming: max wait in ms from headers to the first chunk
+  idleTimeout?: number;        // Streaming: max gap in ms between received chunks
+  maxStreamDuration?: number;  // Streaming: max total duration in ms of a stream
   debug?: boolean;
+  throwOnError?: boolean;  // Throw typed ExnestError subclasses instead of returning { error } objects
+  tokenCounter?: TokenCounter;       // Prompt size estimation (default: HeuristicTokenCounter)
+  preflight?: ExnestPreflightMode;   // Check prompt + maxTokens against the model limits before sending (default: "off")
+  maxCostPerRequest?: number;        // Refuse requests whose worst-case estimated cost (pricing currency, normally USD) exceeds this
+  allowUnpricedRequests?: boolean;   // Send requests the cost limit cannot price (lookup failed, no pricing) instead of throwing (default: false)
+  spendTracker?: SpendTracker;       // Record billed cost and usage, and enforce its budgets
+  modelCacheTtl?: number;            // Model catalog cache lifetime in ms (default: 300000)
+  routing?: ExnestModelRouterOptions;  // Constraints and strategy for model "auto" (default: cheapest active model)
+  fallbackOn?: ExnestFallbackCondition[];  // Failures that move a models chain to the next model (default: DEFAULT_FALLBACK_ON)
+  rateLimits?: RateLimiter | ExnestRateLimiterOptions;  // Queue requests to stay within RPM, TPM and concurrency limits
+  cache?: ResponseCache | ExnestCacheOptions;  // Cache chat and completion responses (off unless set)
+  middleware?: ExnestMiddleware[];  // Hooks around every HTTP call, in order (see use())
+  fetch?: ExnestFetch;              // Transport for every request, including streams (default: global fetch)
+  headers?: Record<string, string>; // Default headers sent with every request
+  userAgent?: string;               // Suffix appended to the SDK User-Agent
+}
+
+// Function tool definition (OpenAI compatible)
+export interface ExnestToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, any>;  // JSON Schema describing the function arguments
+    strict?: boolean;
+  };
+}
+
+// Controls whether and which tool the model should call
+export type ExnestToolChoice =
+  | "none"
+  | "auto"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+// Tool call requested by the model in an assistant message
+export interface ExnestToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;  // JSON-encoded arguments, as generated by the model
+  };
+}
+
+// Incremental tool call fragment in a stream chunk (merge by index)
+export interface ExnestToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
 }
 
 export interface ExnestMessage {
-  role: "system" | "user" | "assistant";
-  content: string;
+  role: "system" | "user" | "assistant" | "tool";
+  content: ExnestMessageContent | null;  // Plain text or multimodal content parts
+  name?: string;
+  tool_calls?: ExnestToolCall[];  // Assistant messages only
+  tool_call_id?: string;          // Tool messages only
 }
 
 export interface ExnestChatOptions {
@@ -23,6 +171,30 @@ export interface ExnestChatOptions {
   timeout?: number;
   exnestMetadata?: boolean;  // Enable Exnest-specific metadata (billing, transaction info)
   stream?: boolean;
+  tools?: ExnestToolDefinition[];  // Chat only: functions the model may call
+  toolChoice?: ExnestToolChoice;   // Chat only: defaults to "auto" on the server when tools are given
+  parallelToolCalls?: boolean;     // Chat only: allow several tool calls in one turn
+  responseFormat?: ExnestResponseFormat;  // Chat only: text, json_object or json_schema output
+  signal?: AbortSignal;  // Cancel the request (including retries and open streams)
+  firstTokenTimeout?: number;  // Streaming only: overrides the client default
+  idleTimeout?: number;        // Streaming only: overrides the client default
+  maxStreamDuration?: number;  // Streaming only: overrides the client default
+  preflight?: ExnestPreflightMode;  // Overrides the client default
+  maxCostPerRequest?: number;       // Overrides the client default
+  allowUnpricedRequests?: boolean;  // Overrides the client default
+  tags?: string[];                  // Labels for spend tracking (e.g. feature or customer)
+  routing?: ExnestModelRouterOptions;  // Model "auto" only: merged over the client routing options
+  models?: string[];                    // chat/stream only: fallback models tried in order after the model argument
+  fallbackOn?: ExnestFallbackCondition[];  // Overrides the client default
+  onFallback?: (event: ExnestFallbackEvent) => void;  // Called before moving on to the next model
+  cache?: boolean;  // false skips the client response cache for this call (no lookup, no store)
+}
+
+export interface ExnestModelRequestOptions {
+  openaiCompatible?: boolean;  // Return OpenAI /v1/models entries (ExnestOpenAIModel)
+  timeout?: number;
+  signal?: AbortSignal;
+  refresh?: boolean;           // Bypass the model catalog cache
 }
 
 // Base response interface with common OpenAI-compatible fields
@@ -36,6 +208,8 @@ export interface ExnestBaseResponse {
     completion_tokens: number;
     total_tokens: number;
   };
+  fallback?: ExnestFallbackInfo;  // Set when the request used a models fallback chain
+  cache?: ExnestCacheInfo;        // Set when the response was served from the response cache
   
   // Exnest-specific metadata (when exnest_metadata=true)
   exnest?: {
@@ -76,7 +250,8 @@ export interface ExnestChatResponse extends ExnestBaseResponse {
     index?: number;
     message?: {
       role: string;
-      content: string;
+      content: string | null;
+      tool_calls?: ExnestToolCall[];
     };
     finish_reason?: string;
   }>;
@@ -105,9 +280,32 @@ export interface ExnestStreamChunk {
     delta: {
       role?: string;
       content?: string;
+      tool_calls?: ExnestToolCallDelta[];
     };
     finish_reason: string | null;
   }>;
+  // Trailing chunks may carry usage and Exnest metadata (with empty choices)
+  usage?: ExnestBaseResponse["usage"];
+  exnest?: ExnestBaseResponse["exnest"];
+  fallback?: ExnestFallbackInfo;  // First chunk only, when the stream used a models fallback chain
+  cache?: ExnestCacheInfo;        // Every chunk of a stream replayed from the response cache
+}
+
+// Text completion stream chunk (object: "text_completion")
+export interface ExnestCompletionStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    text: string;
+    finish_reason: string | null;
+  }>;
+  // Trailing chunks may carry usage and Exnest metadata (with empty choices)
+  usage?: ExnestBaseResponse["usage"];
+  exnest?: ExnestBaseResponse["exnest"];
+  cache?: ExnestCacheInfo;  // Every chunk of a stream replayed from the response cache
 }
 
 // Error response type (can be either chat or completion format with error)
@@ -147,36 +345,135 @@ export interface ExnestModel {
   };
   isActive: boolean;
   createdAt: string;
+  capabilities?: Partial<Record<ExnestModelCapability, boolean>>;  // When reported by the models API
 }
 
+// Options for a single streaming request after defaults are applied
+interface StreamRequestOptions {
+  timeout: number;
+  signal?: AbortSignal;
+  firstTokenTimeout?: number;
+  idleTimeout?: number;
+  maxStreamDuration?: number;
+  tags?: string[];
+}
+
+// Abort controller with named timers for the different request phases
+interface AbortScope {
+  readonly signal: AbortSignal;
+  readonly expiredPhase?: ExnestTimeoutPhase;
+  startTimer(phase: ExnestTimeoutPhase, ms?: number): void;
+  clearTimer(phase: ExnestTimeoutPhase): void;
+  timeoutError(): TimeoutError;
+  dispose(): void;
+}
+
+const TIMEOUT_PHASE_LABELS: Record<ExnestTimeoutPhase, string> = {
+  request: "Request",
+  connect: "Stream connect",
+  first_token: "First token",
+  idle: "Stream idle",
+  total: "Max stream duration",
+};
+
 export class ExnestAI {
-  private apiKey: string;
+  private keyPool: ApiKeyPool;
   private baseUrl: string;
   private timeout: number;
   private retries: number;
   private retryDelay: number;
+  private retryPolicy: ExnestRetryPolicy;
+  private firstTokenTimeout?: number;
+  private idleTimeout?: number;
+  private maxStreamDuration?: number;
   private debug: boolean;
+  private throwOnError: boolean;
+  private tokenCounter: TokenCounter;
+  private preflight: ExnestPreflightMode;
+  private maxCostPerRequest?: number;
+  private allowUnpricedRequests: boolean;
+  private spendTracker?: SpendTracker;
+  private modelCatalog: ModelCatalog;
+  private routing: ExnestModelRouterOptions;
+  private modelRouter: ModelRouter;
+  private fallbackOn?: ExnestFallbackCondition[];
+  private rateLimiter?: RateLimiter;
+  private responseCache?: ResponseCache;
+  private middleware: ExnestMiddleware[];
+  private fetch: ExnestFetch;
+  private headers: Record<string, string>;
+  private userAgent: string;
 
   constructor({ 
     apiKey, 
+    apiKeys,
     baseUrl = process.env.EXNEST_API_URL || "https://api.exnest.app/v1", 
     timeout = 30000,
     retries = 3,
     retryDelay = 1000,
-    debug = false
+    retryPolicy = {},
+    firstTokenTimeout,
+    idleTimeout,
+    maxStreamDuration,
+    debug = false,
+    throwOnError = false,
+    tokenCounter = new HeuristicTokenCounter(),
+    preflight = "off",
+    maxCostPerRequest,
+    allowUnpricedRequests = false,
+    spendTracker,
+    modelCacheTtl,
+    routing,
+    fallbackOn,
+    rateLimits,
+    cache,
+    middleware = [],
+    fetch,
+    headers = {},
+    userAgent
   }: ExnestClientOptions) {
-    this.apiKey = apiKey;
+    this.keyPool = toApiKeyPool(apiKey, apiKeys);
     this.baseUrl = baseUrl;
     this.timeout = timeout;
     this.retries = retries;
     this.retryDelay = retryDelay;
+    this.retryPolicy = retryPolicy;
+    this.firstTokenTimeout = firstTokenTimeout;
+    this.idleTimeout = idleTimeout;
+    this.maxStreamDuration = maxStreamDuration;
     this.debug = debug;
-
-    if (!apiKey) {
-      throw new Error("API key is required");
+    this.throwOnError = throwOnError;
+    this.tokenCounter = tokenCounter;
+    this.preflight = preflight;
+    this.maxCostPerRequest = maxCostPerRequest;
+    this.allowUnpricedRequests = allowUnpricedRequests;
+    this.spendTracker = spendTracker;
+    this.modelCatalog = new ModelCatalog((endpoint, options) => this.fetchModelData(endpoint, options), { ttl: modelCacheTtl });
+    this.routing = routing || {};
+    this.modelRouter = new ModelRouter(this.modelCatalog, this.routing);
+    this.fallbackOn = fallbackOn;
+    this.rateLimiter = toRateLimiter(rateLimits);
+    this.responseCache = toResponseCache(cache);
+    this.middleware = [...middleware];
+    this.fetch = resolveFetch(fetch);
+    this.headers = headers;
+    this.userAgent = buildUserAgent(userAgent);
+
+    if (this.keyPool.size === 0) {
+      throw new InvalidRequestError("API key is required");
     }
   }
 
+  /**
+   * Add a middleware that runs around every HTTP call (chat, completion, streams and model endpoints)
+   * @param middleware - async (ctx, next) => response; runs after the middleware added before it
+   * @returns The client, for chaining
+   */
+  use(middleware: ExnestMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
   /**
    * Simple text completion with single prompt
    * @param model - Model identifier (e.g., "gpt-4.1-mini", "anthropic:claude-3")
@@ -190,16 +487,21 @@ export class ExnestAI {
     options: ExnestChatOptions = {}
   ): Promise<ExnestCompletionResponse> {
     if (!model || typeof model !== "string") {
-      throw new Error("Model must be a non-empty string");
+      throw new InvalidRequestError("Model must be a non-empty string");
     }
     if (!prompt || typeof prompt !== "string") {
-      throw new Error("Prompt must be a non-empty string");
+      throw new InvalidRequestError("Prompt must be a non-empty string");
+    }
+    if (model === AUTO_MODEL) {
+      model = await this.routeModel({ prompt }, options);
+    }
+    if (this.hasPreflightChecks(options)) {
+      ({ options } = await this.runPreflightChecks(model, { prompt }, options));
     }
 
     const requestBody: any = {
       model,
       prompt,
-      api_key: this.apiKey,
     };
 
     // Add optional parameters
@@ -209,8 +511,10 @@ export class ExnestAI {
     if (options.maxTokens !== undefined) {
       requestBody.max_tokens = options.maxTokens;
     }
-    if (options.exnestMetadata !== undefined) {
-      requestBody.exnest_metadata = options.exnestMetadata;
+    // Billing metadata is needed to track spend
+    const exnestMetadata = options.exnestMetadata ?? (this.spendTracker ? true : undefined);
+    if (exnestMetadata !== undefined) {
+      requestBody.exnest_metadata = exnestMetadata;
     }
     if (options.stream !== undefined) {
       requestBody.stream = options.stream;
@@ -221,7 +525,23 @@ export class ExnestAI {
 
     const requestTimeout = options.timeout || this.timeout;
 
-    return this.executeRequest("/completions", requestBody, requestTimeout) as Promise<ExnestCompletionResponse>;
+    const cacheKey = this.cacheKeyFor("/completions", requestBody, options);
+    if (cacheKey) {
+      const cached = await this.readCache<ExnestCompletionResponse>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const permit = this.rateLimiter ? await this.acquirePermit(model, prompt, options) : undefined;
+    let response: ExnestCompletionResponse | undefined;
+    try {
+      response = await this.executeRequest("/completions", requestBody, requestTimeout, "POST", options.signal, this.throwOnError, { tags: options.tags }) as ExnestCompletionResponse;
+    } finally {
+      permit?.release(response?.usage?.total_tokens);
+    }
+    if (cacheKey) {
+      await this.writeCache(cacheKey, response);
+    }
+    return response;
   }
 
   /**
@@ -235,13 +555,35 @@ export class ExnestAI {
     model: string, 
     messages: ExnestMessage[], 
     options: ExnestChatOptions = {}
+  ): Promise<ExnestChatResponse> {
+    if (options.models?.length) {
+      this.validateInputs(model, messages);
+      return this.chatWithFallback(model, messages, options);
+    }
+    return this.sendChat(model, messages, options);
+  }
+
+  /**
+   * Validate inputs and send one chat completion request
+   * @private
+   */
+  private async sendChat(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestChatOptions,
+    throwOnError = this.throwOnError
   ): Promise<ExnestChatResponse> {
     this.validateInputs(model, messages);
+    if (model === AUTO_MODEL) {
+      model = await this.routeModel({ messages }, options);
+    }
+    if (this.hasPreflightChecks(options)) {
+      ({ messages, options } = await this.runPreflightChecks(model, { messages }, options));
+    }
 
     const requestBody: any = {
       model,
       messages,
-      api_key: this.apiKey,
     };
 
     // Add optional parameters
@@ -251,8 +593,10 @@ export class ExnestAI {
     if (options.maxTokens !== undefined) {
       requestBody.max_tokens = options.maxTokens;
     }
-    if (options.exnestMetadata !== undefined) {
-      requestBody.exnest_metadata = options.exnestMetadata;
+    // Billing metadata is needed to track spend
+    const exnestMetadata = options.exnestMetadata ?? (this.spendTracker ? true : undefined);
+    if (exnestMetadata !== undefined) {
+      requestBody.exnest_metadata = exnestMetadata;
     }
     if (options.stream !== undefined) {
       requestBody.stream = options.stream;
@@ -260,10 +604,27 @@ export class ExnestAI {
     if (options.timeout !== undefined) {
       requestBody.timeout = options.timeout;
     }
+    this.applyChatOptions(requestBody, options);
 
     const requestTimeout = options.timeout || this.timeout;
 
-    return this.executeRequest("/chat/completions", requestBody, requestTimeout) as Promise<ExnestChatResponse>;
+    const cacheKey = this.cacheKeyFor("/chat/completions", requestBody, options);
+    if (cacheKey) {
+      const cached = await this.readCache<ExnestChatResponse>(cacheKey);
+      if (cached) return cached;
+    }
+
+    const permit = this.rateLimiter ? await this.acquirePermit(model, messages, options) : undefined;
+    let response: ExnestChatResponse | undefined;
+    try {
+      response = await this.executeRequest("/chat/completions", requestBody, requestTimeout, "POST", options.signal, throwOnError, { tags: options.tags }) as ExnestChatResponse;
+    } finally {
+      permit?.release(response?.usage?.total_tokens);
+    }
+    if (cacheKey) {
+      await this.writeCache(cacheKey, response);
+    }
+    return response;
   }
 
   /**
@@ -271,24 +632,29 @@ export class ExnestAI {
    * @param model - Model identifier
    * @param prompt - Single prompt string
    * @param options - Completion options
-   * @returns AsyncGenerator<ExnestStreamChunk>
+   * @returns AsyncGenerator<ExnestCompletionStreamChunk>
    */
   async *streamCompletion(
     model: string,
     prompt: string,
     options: ExnestChatOptions = {}
-  ): AsyncGenerator<ExnestStreamChunk, void, unknown> {
+  ): AsyncGenerator<ExnestCompletionStreamChunk, void, unknown> {
     if (!model || typeof model !== "string") {
-      throw new Error("Model must be a non-empty string");
+      throw new InvalidRequestError("Model must be a non-empty string");
     }
     if (!prompt || typeof prompt !== "string") {
-      throw new Error("Prompt must be a non-empty string");
+      throw new InvalidRequestError("Prompt must be a non-empty string");
+    }
+    if (model === AUTO_MODEL) {
+      model = await this.routeModel({ prompt }, options, ["streaming"]);
+    }
+    if (this.hasPreflightChecks(options)) {
+      ({ options } = await this.runPreflightChecks(model, { prompt }, options));
     }
 
     const requestBody: any = {
       model,
       prompt,
-      api_key: this.apiKey,
       stream: true,
     };
 
@@ -299,8 +665,10 @@ export class ExnestAI {
     if (options.maxTokens !== undefined) {
       requestBody.max_tokens = options.maxTokens;
     }
-    if (options.exnestMetadata !== undefined) {
-      requestBody.exnest_metadata = options.exnestMetadata;
+    // Billing metadata is needed to track spend
+    const exnestMetadata = options.exnestMetadata ?? (this.spendTracker ? true : undefined);
+    if (exnestMetadata !== undefined) {
+      requestBody.exnest_metadata = exnestMetadata;
     }
     if (options.timeout !== undefined) {
       requestBody.timeout = options.timeout;
@@ -308,7 +676,18 @@ export class ExnestAI {
 
     const requestTimeout = options.timeout || this.timeout;
 
-    yield* this.executeStreamRequest("/completions", requestBody, requestTimeout);
+    const cacheKey = this.cacheKeyFor("/completions", requestBody, options);
+    if (cacheKey) {
+      const cached = await this.readCache<ExnestCompletionStreamChunk[]>(cacheKey);
+      if (cached) {
+        yield* cached;
+        return;
+      }
+    }
+
+    const permit = this.rateLimiter ? await this.acquirePermit(model, prompt, options) : undefined;
+    const source = this.executeStreamRequest<ExnestCompletionStreamChunk>("/completions", requestBody, this.resolveStreamOptions(requestTimeout, options), permit);
+    yield* cacheKey ? this.cacheStream(cacheKey, source) : source;
   }
 
   /**
@@ -316,19 +695,170 @@ export class ExnestAI {
    * @param model - Model identifier
    * @param messages - Array of chat messages
    * @param options - Chat options
-   * @returns AsyncGenerator<ExnestStreamChunk>
+   * @returns ExnestChatStream - async iterable of ExnestStreamChunk with text, callback and Web Streams helpers
    */
-  async *stream(
+  stream(
     model: string,
     messages: ExnestMessage[],
     options: ExnestChatOptions = {}
+  ): ExnestChatStream {
+    const source = options.models?.length
+      ? this.streamChatWithFallback(model, messages, options)
+      : this.streamChat(model, messages, options);
+    return new ExnestChatStream(source);
+  }
+
+  /**
+   * Try each model of the fallback chain until one succeeds
+   * @private
+   */
+  private async chatWithFallback(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestChatOptions
+  ): Promise<ExnestChatResponse> {
+    const failed: ExnestFallbackAttempt[] = [];
+
+    for (const [candidate, nextModel] of this.fallbackSteps(model, options)) {
+      try {
+        const response = await this.sendChat(candidate, messages, options, true);
+        return { ...response, fallback: { model: response.model || candidate, failed } };
+      } catch (error) {
+        // Middleware failures are not the model's fault: no fallback
+        if (isMiddlewareError(error)) {
+          throw error;
+        }
+        const exnestError = toExnestError(error);
+        failed.push({ model: candidate, error: exnestError });
+        if (!this.continueFallback(exnestError, candidate, nextModel, options)) {
+          return this.fallbackFailure(exnestError, failed, this.chainExhausted(exnestError, failed, nextModel, options));
+        }
+      }
+    }
+    throw new AllModelsFailedError(failed);
+  }
+
+  /**
+   * Streaming variant of chatWithFallback; a model is only replaced before its first chunk
+   * @private
+   */
+  private async *streamChatWithFallback(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestChatOptions
+  ): AsyncGenerator<ExnestStreamChunk, void, unknown> {
+    this.validateInputs(model, messages);
+    const failed: ExnestFallbackAttempt[] = [];
+
+    for (const [candidate, nextModel] of this.fallbackSteps(model, options)) {
+      const source = this.streamChat(candidate, messages, options);
+      let first: IteratorResult<ExnestStreamChunk, void>;
+      try {
+        first = await source.next();
+      } catch (error) {
+        // Middleware failures are not the model's fault: no fallback
+        if (isMiddlewareError(error)) {
+          throw error;
+        }
+        const exnestError = toExnestError(error);
+        failed.push({ model: candidate, error: exnestError });
+        if (!this.continueFallback(exnestError, candidate, nextModel, options)) {
+          // Streams always throw; a chain that ran out reports every failed model
+          throw this.chainExhausted(exnestError, failed, nextModel, options) ? new AllModelsFailedError(failed) : exnestError;
+        }
+        continue;
+      }
+
+      if (first.done) {
+        return;
+      }
+      yield { ...first.value, fallback: { model: first.value.model || candidate, failed } };
+      yield* source;
+      return;
+    }
+  }
+
+  /**
+   * Models of the chain as [model, next model] pairs
+   * @private
+   */
+  private fallbackSteps(model: string, options: ExnestChatOptions): Array<[string, string | undefined]> {
+    const chain = fallbackChain(model, options.models);
+    return chain.map((candidate, index) => [candidate, chain[index + 1]]);
+  }
+
+  /**
+   * Whether the chain ended because its last model also failed with a fallback error
+   * @private
+   */
+  private chainExhausted(
+    error: ExnestError,
+    failed: ExnestFallbackAttempt[],
+    nextModel: string | undefined,
+    options: ExnestChatOptions
+  ): boolean {
+    return nextModel === undefined && failed.length > 1 && shouldFallback(error, options.fallbackOn || this.fallbackOn);
+  }
+
+  /**
+   * Whether a failed model should be replaced by the next one; notifies onFallback when it is
+   * @private
+   */
+  private continueFallback(
+    error: ExnestError,
+    model: string,
+    nextModel: string | undefined,
+    options: ExnestChatOptions
+  ): boolean {
+    if (nextModel === undefined || options.signal?.aborted) {
+      return false;
+    }
+    if (!shouldFallback(error, options.fallbackOn || this.fallbackOn)) {
+      return false;
+    }
+
+    if (this.debug) {
+      console.log(`[ExnestAI] ${model} failed (${error.code}), falling back to ${nextModel}`);
+    }
+    options.onFallback?.({ model, nextModel, error });
+    return true;
+  }
+
+  /**
+   * Surface the error that ended a fallback chain like a single request would:
+   * thrown in throwing mode or before sending, otherwise returned as an error response.
+   * An exhausted chain throws AllModelsFailedError instead of the last error.
+   * @private
+   */
+  private fallbackFailure(error: ExnestError, failed: ExnestFallbackAttempt[], exhausted: boolean): ExnestChatResponse {
+    const requestFailed = error.status !== undefined || error instanceof TimeoutError || error instanceof NetworkError;
+
+    if (this.throwOnError || !requestFailed || error instanceof RequestAbortedError) {
+      throw exhausted ? new AllModelsFailedError(failed) : error;
+    }
+    return { ...error.toErrorResponse(), fallback: { failed } } as ExnestChatResponse;
+  }
+
+  /**
+   * Validate inputs and run the chat streaming request
+   * @private
+   */
+  private async *streamChat(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestChatOptions
   ): AsyncGenerator<ExnestStreamChunk, void, unknown> {
     this.validateInputs(model, messages);
+    if (model === AUTO_MODEL) {
+      model = await this.routeModel({ messages }, options, ["streaming"]);
+    }
+    if (this.hasPreflightChecks(options)) {
+      ({ messages, options } = await this.runPreflightChecks(model, { messages }, options));
+    }
 
     const requestBody: any = {
       model,
       messages,
-      api_key: this.apiKey,
       stream: true,
     };
 
@@ -339,16 +869,89 @@ export class ExnestAI {
     if (options.maxTokens !== undefined) {
       requestBody.max_tokens = options.maxTokens;
     }
-    if (options.exnestMetadata !== undefined) {
-      requestBody.exnest_metadata = options.exnestMetadata;
+    // Billing metadata is needed to track spend
+    const exnestMetadata = options.exnestMetadata ?? (this.spendTracker ? true : undefined);
+    if (exnestMetadata !== undefined) {
+      requestBody.exnest_metadata = exnestMetadata;
     }
     if (options.timeout !== undefined) {
       requestBody.timeout = options.timeout;
     }
+    this.applyChatOptions(requestBody, options);
 
     const requestTimeout = options.timeout || this.timeout;
 
-    yield* this.executeStreamRequest("/chat/completions", requestBody, requestTimeout);
+    const cacheKey = this.cacheKeyFor("/chat/completions", requestBody, options);
+    if (cacheKey) {
+      const cached = await this.readCache<ExnestStreamChunk[]>(cacheKey);
+      if (cached) {
+        yield* cached;
+        return;
+      }
+    }
+
+    const permit = this.rateLimiter ? await this.acquirePermit(model, messages, options) : undefined;
+    const source = this.executeStreamRequest<ExnestStreamChunk>("/chat/completions", requestBody, this.resolveStreamOptions(requestTimeout, options), permit);
+    yield* cacheKey ? this.cacheStream(cacheKey, source) : source;
+  }
+
+  /**
+   * Chat completion that automatically executes requested tools until the model is done
+   * @param model - Model identifier
+   * @param messages - Array of chat messages
+   * @param options - Tool handlers keyed by function name, maxSteps and chat options
+   * @returns Promise<ExnestRunToolsResult>
+   */
+  async runTools(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestRunToolsOptions
+  ): Promise<ExnestRunToolsResult> {
+    return runTools(this, model, messages, options);
+  }
+
+  /**
+   * Streaming variant of runTools emitting text and tool events
+   * @param model - Model identifier
+   * @param messages - Array of chat messages
+   * @param options - Tool handlers keyed by function name, maxSteps and chat options
+   * @returns AsyncGenerator<ExnestToolStreamEvent>
+   */
+  async *streamTools(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestRunToolsOptions
+  ): AsyncGenerator<ExnestToolStreamEvent, void, unknown> {
+    yield* streamTools(this, model, messages, options);
+  }
+
+  /**
+   * Run many chat and completion jobs with bounded concurrency
+   * @param requests - Chat jobs ({ model, messages }) and completion jobs ({ type: "completion", model, prompt })
+   * @param options - Concurrency, progress callback, stopOnError and checkpoint file or store
+   * @returns Promise<ExnestBatchResult> with per-item results in input order and aggregate usage and cost
+   */
+  async batch(
+    requests: ExnestBatchRequest[],
+    options: ExnestBatchOptions = {}
+  ): Promise<ExnestBatchResult> {
+    return runBatch(this, requests, options);
+  }
+
+  /**
+   * Chat completion in JSON mode returning the parsed and validated object
+   * @param model - Model identifier
+   * @param messages - Array of chat messages
+   * @param options - JSON schema and/or validator, maxRepairs and chat options
+   * @returns Promise<ExnestStructuredResult<T>>
+   * @throws ExnestStructuredOutputError when the output is invalid after all repair attempts
+   */
+  async chatStructured<T = unknown>(
+    model: string,
+    messages: ExnestMessage[],
+    options: ExnestStructuredOptions<T> = {}
+  ): Promise<ExnestStructuredResult<T>> {
+    return chatStructured<T>(this, model, messages, options);
   }
 
   /**
@@ -364,141 +967,277 @@ export class ExnestAI {
     maxTokens = 200
   ): Promise<ExnestChatResponse> {
     if (!input || typeof input !== "string") {
-      throw new Error("Input must be a non-empty string");
+      throw new InvalidRequestError("Input must be a non-empty string");
     }
 
     return this.chat(model, [{ role: "user", content: input }], { maxTokens });
   }
 
   /**
-   * Get all available models
+   * Get all available models (cached, see catalog)
    * @param options - Options for the request
-   * @returns Promise<ExnestResponse>
+   * @returns Promise<ExnestModel[]>, or ExnestOpenAIModel[] with openaiCompatible: true
    */
-  async getModels(options: { openaiCompatible?: boolean; timeout?: number } = {}): Promise<ExnestResponse> {
-    const queryParams = new URLSearchParams();
-    if (options.openaiCompatible) {
-      queryParams.append('openai_compatible', 'true');
-    }
-
-    const endpoint = `/models${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    const requestTimeout = options.timeout || this.timeout;
-
-    return this.executeRequest(endpoint, null, requestTimeout, 'GET');
+  getModels(options: ExnestModelRequestOptions & { openaiCompatible: true }): Promise<ExnestOpenAIModel[]>;
+  getModels(options?: ExnestModelRequestOptions): Promise<ExnestModel[]>;
+  async getModels(options: ExnestModelRequestOptions = {}): Promise<ExnestModel[] | ExnestOpenAIModel[]> {
+    return this.modelCatalog.list(options);
   }
 
   /**
-   * Get a specific model by name
-   * @param modelName - Name of the model to retrieve
+   * Get a specific model by name (cached, see catalog)
+   * @param modelName - Name of the model to retrieve, e.g. "anthropic:claude-3"
    * @param options - Options for the request
-   * @returns Promise<ExnestResponse>
+   * @returns Promise<ExnestModel>, or ExnestOpenAIModel with openaiCompatible: true
    */
+  getModel(modelName: string, options: ExnestModelRequestOptions & { openaiCompatible: true }): Promise<ExnestOpenAIModel>;
+  getModel(modelName: string, options?: ExnestModelRequestOptions): Promise<ExnestModel>;
   async getModel(
     modelName: string,
-    options: { openaiCompatible?: boolean; timeout?: number } = {}
-  ): Promise<ExnestResponse> {
-    const queryParams = new URLSearchParams();
-    if (options.openaiCompatible) {
-      queryParams.append('openai_compatible', 'true');
+    options: ExnestModelRequestOptions = {}
+  ): Promise<ExnestModel | ExnestOpenAIModel> {
+    if (!modelName || typeof modelName !== "string") {
+      throw new InvalidRequestError("Model name must be a non-empty string");
     }
+    return this.modelCatalog.get(modelName, options);
+  }
 
-    const endpoint = `/models/${modelName}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    const requestTimeout = options.timeout || this.timeout;
+  /**
+   * TTL-cached model catalog with search and filtering
+   */
+  get catalog(): ModelCatalog {
+    return this.modelCatalog;
+  }
 
-    return this.executeRequest(endpoint, null, requestTimeout, 'GET');
+  /**
+   * Router that resolves model "auto" (configured with the routing option)
+   */
+  get router(): ModelRouter {
+    return this.modelRouter;
   }
 
   /**
-   * Get models by provider
+   * Response cache (undefined unless the cache option is set), e.g. to clear or invalidate entries
+   */
+  get cache(): ResponseCache | undefined {
+    return this.responseCache;
+  }
+
+  /**
+   * Get the context window and max output tokens of a model (cached per client)
+   * @param model - Model identifier
+   * @param options - Options for the lookup request
+   * @returns Promise with the limits, or undefined when the models endpoint does not report them
+   */
+  async getModelLimits(
+    model: string,
+    options: ExnestModelRequestOptions = {}
+  ): Promise<ExnestModelLimits | undefined> {
+    const limits = (await this.getCachedModel(model, options))?.limits;
+    return limits && (limits.contextWindow > 0 || limits.maxTokens > 0) ? limits : undefined;
+  }
+
+  /**
+   * Estimate the cost of a request from the model pricing before sending it
+   * @param model - Model identifier
+   * @param input - Chat messages or a completion prompt
+   * @param options - maxTokens of the request and the expected completion length
+   * @returns Promise with worst-case and expected cost, or undefined when the model has no pricing
+   */
+  async estimateCost(
+    model: string,
+    input: ExnestMessage[] | string,
+    options: ExnestCostEstimateOptions = {}
+  ): Promise<ExnestCostEstimate | undefined> {
+    const info = await this.getCachedModel(model, { signal: options.signal });
+    if (!info) {
+      return undefined;
+    }
+    return estimateRequestCost(info, this.countTokens(input, model), options);
+  }
+
+  /**
+   * Estimate the prompt tokens of messages or a text prompt with the configured TokenCounter
+   * @param input - Chat messages or a completion prompt
+   * @param model - Model identifier, passed to the counter
+   */
+  countTokens(input: ExnestMessage[] | string, model?: string): number {
+    return typeof input === "string"
+      ? this.tokenCounter.countText(input, model)
+      : this.tokenCounter.countMessages(input, model);
+  }
+
+  /**
+   * Get models by provider (cached, see catalog)
    * @param provider - Provider name
    * @param options - Options for the request
-   * @returns Promise<ExnestResponse>
+   * @returns Promise<ExnestModel[]>, or ExnestOpenAIModel[] with openaiCompatible: true
    */
+  getModelsByProvider(provider: string, options: ExnestModelRequestOptions & { openaiCompatible: true }): Promise<ExnestOpenAIModel[]>;
+  getModelsByProvider(provider: string, options?: ExnestModelRequestOptions): Promise<ExnestModel[]>;
   async getModelsByProvider(
     provider: string,
-    options: { openaiCompatible?: boolean; timeout?: number } = {}
-  ): Promise<ExnestResponse> {
-    const queryParams = new URLSearchParams();
-    if (options.openaiCompatible) {
-      queryParams.append('openai_compatible', 'true');
+    options: ExnestModelRequestOptions = {}
+  ): Promise<ExnestModel[] | ExnestOpenAIModel[]> {
+    if (!provider || typeof provider !== "string") {
+      throw new InvalidRequestError("Provider must be a non-empty string");
     }
-
-    const endpoint = `/models/provider/${provider}${queryParams.toString() ? `?${queryParams.toString()}` : ''}`;
-    const requestTimeout = options.timeout || this.timeout;
-
-    return this.executeRequest(endpoint, null, requestTimeout, 'GET');
+    return this.modelCatalog.byProvider(provider, options);
   }
 
   /**
    * Execute HTTP request with retry logic
+   * @param spend - Record the returned response with the spend tracker (chat and completion calls)
    * @private
    */
   private async executeRequest(
     endpoint: string, 
     body: any, 
     timeout: number,
-    method: 'GET' | 'POST' = 'POST'
+    method: 'GET' | 'POST' = 'POST',
+    signal?: AbortSignal,
+    throwOnError = this.throwOnError,
+    spend?: Pick<ExnestSpendContext, "tags">
   ): Promise<ExnestResponse> {
     let lastError: any = null;
 
     for (let attempt = 0; attempt <= this.retries; attempt++) {
+      let response: ExnestMiddlewareResponse & { status: number; headers: Headers };
+      let result: any;
+      let apiKey = "";
+      let sent = body;
+
+      if (signal?.aborted) {
+        throw new RequestAbortedError(undefined, { cause: signal.reason });
+      }
+
+      const abortScope = this.createAbortScope(signal);
+      abortScope.startTimer("request", timeout);
+
       try {
         if (this.debug) {
           console.log(`[ExnestAI] Attempt ${attempt + 1}/${this.retries + 1} - ${endpoint}`);
         }
 
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), timeout);
+        const headers = this.requestHeaders({ "Content-Type": "application/json" });
 
-        const headers: Record<string, string> = {
-          "Content-Type": "application/json",
-          "User-Agent": "ExnestAI-Client/1.0.0",
-        };
-
-        // Add API key to Authorization header for better compatibility
-        headers["Authorization"] = `Bearer ${this.apiKey}`;
+        // Each attempt takes a key from the pool, so a retry can move to another key
+        apiKey = this.keyPool.acquire();
+        headers["Authorization"] = `Bearer ${apiKey}`;
+        if (body) {
+          body.api_key = apiKey;
+        }
 
-        const fetchOptions: RequestInit = {
+        const context: ExnestMiddlewareContext = {
+          endpoint,
           method,
+          body: method === 'POST' && body ? body : undefined,
           headers,
-          signal: controller.signal,
+          stream: false,
+          attempt: attempt + 1,
+          state: {},
         };
 
-        // Add body for POST requests
-        if (method === 'POST' && body) {
-          fetchOptions.body = JSON.stringify(body);
-        }
-
-        const response = await fetch(`${this.baseUrl}${endpoint}`, fetchOptions);
-
-        clearTimeout(timeoutId);
+        response = await runMiddleware(this.middleware, context, async ({ endpoint, method, body, headers }) => {
+          const fetchOptions: RequestInit = {
+            method,
+            headers,
+            signal: abortScope.signal,
+          };
 
-        const result = await response.json();
+          // Add body for POST requests
+          if (method === 'POST' && body) {
+            fetchOptions.body = JSON.stringify(body);
+          }
 
-        if (this.debug) {
-          console.log(`[ExnestAI] Response status: ${response.status}`);
-          console.log(`[ExnestAI] Response body:`, result);
+          const httpResponse = await this.fetch(`${this.baseUrl}${endpoint}`, fetchOptions);
+          this.rateLimiter?.updateFromHeaders(httpResponse.headers);
+
+          // Error responses may not be JSON (e.g. gateway HTML pages)
+          const parsed = await httpResponse.json().catch((error: any) => {
+            if (httpResponse.ok) throw error;
+            return createExnestError(null, httpResponse.status).toErrorResponse();
+          });
+          return { status: httpResponse.status, headers: httpResponse.headers, body: parsed };
+        });
+        // Middleware may have replaced the body (e.g. to rewrite the model)
+        sent = context.body || body;
+        result = response.body;
+      } catch (error: any) {
+        // Cancelled by the caller: never retry
+        if (signal?.aborted) {
+          throw new RequestAbortedError(undefined, { cause: signal.reason });
+        }
+        // Middleware failures are not network failures: surface them as they are
+        if (isMiddlewareError(error)) {
+          throw error;
         }
 
-        // Return the result regardless of success/failure status
-        // The server's response format already includes success/error information
-        return result;
-
-      } catch (error: any) {
-        lastError = error;
+        lastError = abortScope.expiredPhase ? abortScope.timeoutError() : error;
         
         if (this.debug) {
           console.error(`[ExnestAI] Attempt ${attempt + 1} failed:`, error.message);
         }
 
+        if (this.retryPolicy.retryOnNetworkError === false) {
+          break;
+        }
+
         // Don't retry on the last attempt
         if (attempt < this.retries) {
-          await this.delay(this.retryDelay * (attempt + 1)); // Exponential backoff
+          const exnestError = toExnestError(error);
+          await this.waitBeforeRetry(attempt, endpoint, { code: exnestError.code, error: exnestError }, signal);
         }
+        continue;
+      } finally {
+        abortScope.dispose();
+      }
+
+      if (this.debug) {
+        console.log(`[ExnestAI] Response status: ${response.status}`);
+        console.log(`[ExnestAI] Response body:`, result);
       }
+
+      const failed = response.status < 200 || response.status >= 300 || result?.error;
+      if (failed) {
+        const keyError = createExnestError(result, response.status, response.headers);
+        this.keyPool.reportError(apiKey, keyError);
+
+        // The key was quarantined; retry right away if another key is available
+        if (attempt < this.retries && isKeyError(keyError) && this.keyPool.availableCount > 0) {
+          continue;
+        }
+      } else {
+        this.keyPool.reportSuccess(apiKey);
+      }
+
+      if (attempt < this.retries && isRetryableResponse(this.retryPolicy, response.status, result)) {
+        await this.waitBeforeRetry(attempt, endpoint, {
+          status: response.status,
+          code: result?.error?.code,
+          retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+        }, signal);
+        continue;
+      }
+
+      if (spend && !failed) {
+        await this.recordSpend(result, { model: sent.model, apiKey, tags: spend.tags });
+      }
+
+      // In throwing mode, surface API errors as typed exceptions
+      if (throwOnError && failed) {
+        throw createExnestError(result, response.status, response.headers);
+      }
+
+      // Otherwise return the result regardless of success/failure status
+      // The server's response format already includes success/error information
+      return result;
     }
 
-    // If all retries failed, return a formatted error response
+    // If all retries failed, throw or return a formatted error response
+    if (throwOnError) {
+      throw toExnestError(lastError);
+    }
     return this.createErrorResponse(lastError) as ExnestResponse;
   }
 
@@ -506,124 +1245,511 @@ export class ExnestAI {
    * Execute streaming HTTP request
    * @private
    */
-  private async *executeStreamRequest(
+  private async *executeStreamRequest<T>(
     endpoint: string,
     body: any,
-    timeout: number
-  ): AsyncGenerator<ExnestStreamChunk, void, unknown> {
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+    options: StreamRequestOptions,
+    permit?: ExnestRateLimitPermit
+  ): AsyncGenerator<T, void, unknown> {
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      permit?.release();
+      throw new RequestAbortedError(undefined, { cause: signal.reason });
+    }
 
-      const headers: Record<string, string> = {
-        "Content-Type": "application/json",
-        "User-Agent": "ExnestAI-Client/1.0.0",
-        "Accept": "text/event-stream",
-      };
+    // Usage and billing arrive in the trailing chunks
+    let usage: ExnestBaseResponse["usage"];
+    let exnest: ExnestBaseResponse["exnest"];
 
-      // Add API key to Authorization header for better compatibility
-      headers["Authorization"] = `Bearer ${this.apiKey}`;
+    const abortScope = this.createAbortScope(signal);
+    abortScope.startTimer("connect", options.timeout);
+    abortScope.startTimer("total", options.maxStreamDuration);
 
-      const response = await fetch(`${this.baseUrl}${endpoint}`, {
-        method: "POST",
-        headers,
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
+    try {
+      const headers = this.requestHeaders({ "Content-Type": "application/json", "Accept": "text/event-stream" });
 
-      clearTimeout(timeoutId);
+      const apiKey = this.keyPool.acquire();
+      headers["Authorization"] = `Bearer ${apiKey}`;
+      body.api_key = apiKey;
 
-      if (!response.body) {
-        throw new Error("Response body is null");
+      const context: ExnestMiddlewareContext = { endpoint, method: "POST", body, headers, stream: true, attempt: 1, state: {} };
+      let response: ExnestMiddlewareResponse & { status: number; headers: Headers };
+      try {
+        response = await runMiddleware(this.middleware, context, async ({ endpoint, body, headers }) => {
+          let httpResponse: Response;
+          try {
+            httpResponse = await this.fetch(`${this.baseUrl}${endpoint}`, {
+              method: "POST",
+              headers,
+              body: JSON.stringify(body),
+              signal: abortScope.signal,
+            });
+          } catch (error: any) {
+            throw toExnestError(error);
+          }
+          this.rateLimiter?.updateFromHeaders(httpResponse.headers);
+
+          if (!httpResponse.headers.get("content-type")?.includes("text/event-stream")) {
+            // Handle non-streaming response (likely an error)
+            return { status: httpResponse.status, headers: httpResponse.headers, body: await httpResponse.json().catch(() => null) };
+          }
+          if (!httpResponse.body) {
+            throw new StreamError("Response body is null", { status: httpResponse.status });
+          }
+          return { status: httpResponse.status, headers: httpResponse.headers, chunks: this.readStreamChunks<T>(httpResponse.body, abortScope, options) };
+        });
+      } finally {
+        // The request timeout only covers the connection; stream phases take over from here
+        abortScope.clearTimer("connect");
       }
 
-      if (!response.headers.get("content-type")?.includes("text/event-stream")) {
-        // Handle non-streaming response (likely an error)
-        const result = await response.json();
-        throw new Error(result.message || "Streaming request failed");
+      if (!response.chunks) {
+        const error = createExnestError(response.body, response.status, response.headers);
+        this.keyPool.reportError(apiKey, error);
+        throw error;
       }
+      this.keyPool.reportSuccess(apiKey);
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
+      abortScope.startTimer("first_token", options.firstTokenTimeout);
+      let receivedChunk = false;
 
       try {
-        let buffer = "";
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") {
-                return;
-              }
-              try {
-                const chunk = JSON.parse(data);
-                yield chunk;
-              } catch (parseError) {
-                if (this.debug) {
-                  console.error("[ExnestAI] Failed to parse stream chunk:", parseError);
-                }
-              }
-            }
+        for await (const chunk of response.chunks) {
+          if (!receivedChunk) {
+            receivedChunk = true;
+            abortScope.clearTimer("first_token");
           }
+          const { usage: chunkUsage, exnest: chunkExnest } = chunk as ExnestBaseResponse;
+          if (chunkUsage) usage = chunkUsage;
+          if (chunkExnest) exnest = { ...exnest, ...chunkExnest };
+          yield chunk;
         }
+      } catch (error) {
+        // The body reader only raises ExnestErrors; anything else comes from middleware wrapping the chunks
+        if (!(error instanceof ExnestError)) {
+          markMiddlewareError(error);
+        }
+        throw error;
+      }
 
-        // Process any remaining data in the buffer
-        if (buffer.startsWith("data: ")) {
-          const data = buffer.slice(6);
-          if (data !== "[DONE]") {
-            try {
-              const chunk = JSON.parse(data);
-              yield chunk;
-            } catch (parseError) {
-              if (this.debug) {
-                console.error("[ExnestAI] Failed to parse final stream chunk:", parseError);
-              }
-            }
-          }
+      // Middleware may have replaced the body (e.g. to rewrite the model)
+      const sent = context.body || body;
+      await this.recordSpend({ usage, exnest }, { model: sent.model, apiKey: sent.api_key, tags: options.tags, streamed: true });
+    } catch (error: any) {
+      if (signal?.aborted) {
+        throw new RequestAbortedError(undefined, { cause: signal.reason });
+      }
+      if (isMiddlewareError(error)) {
+        throw error;
+      }
+      if (abortScope.expiredPhase) {
+        throw abortScope.timeoutError();
+      }
+      if (error instanceof ExnestError) {
+        throw error;
+      }
+      throw new StreamError(`Streaming failed: ${error.message}`, { cause: error });
+    } finally {
+      abortScope.dispose();
+      // Open streams hold their concurrency slot until they end
+      permit?.release(usage?.total_tokens);
+    }
+  }
+
+  /**
+   * SDK User-Agent and the default headers, then the request-specific headers
+   * @private
+   */
+  private requestHeaders(headers: Record<string, string>): Record<string, string> {
+    return { "User-Agent": this.userAgent, ...this.headers, ...headers };
+  }
+
+  /**
+   * Parse the SSE body into chunks; the body is cancelled when the scope aborts or iteration stops early
+   * @private
+   */
+  private readStreamChunks<T>(
+    stream: ReadableStream<Uint8Array>,
+    abortScope: AbortScope,
+    options: StreamRequestOptions
+  ): AsyncGenerator<T, void, unknown> {
+    const reader = stream.getReader();
+    const cancelReader = () => reader.cancel().catch(() => {});
+    let completed = false;
+
+    // Unblock a pending read even if the transport ignores the abort signal
+    abortScope.signal.addEventListener("abort", cancelReader, { once: true });
+
+    // Idle time only counts while waiting on the network, not while the consumer holds a chunk
+    const readBytes = async function* (): AsyncGenerator<Uint8Array, void, unknown> {
+      while (true) {
+        abortScope.startTimer("idle", options.idleTimeout);
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error: any) {
+          throw new StreamError(`Streaming failed: ${error?.message || error}`, { cause: error });
+        } finally {
+          abortScope.clearTimer("idle");
+        }
+        const { done, value } = result;
+        if (abortScope.signal.aborted) {
+          throw new StreamError("Stream aborted");
         }
+        if (done) {
+          completed = true;
+          return;
+        }
+        yield value;
+      }
+    };
+
+    const debug = this.debug;
+    return (async function* () {
+      try {
+        yield* parseSSEJson<T>(readBytes(), {
+          onParseError: (parseError) => {
+            if (debug) {
+              console.error("[ExnestAI] Failed to parse stream chunk:", parseError);
+            }
+          },
+        });
       } finally {
+        // Cancel the body when the stream ends early (abort, [DONE] or consumer break)
+        abortScope.signal.removeEventListener("abort", cancelReader);
+        if (!completed) {
+          await cancelReader();
+        }
         reader.releaseLock();
       }
+    })();
+  }
+
+  /**
+   * Create an abort signal that fires when a phase timer expires or the caller's signal aborts
+   * @private
+   */
+  private createAbortScope(signal?: AbortSignal): AbortScope {
+    const controller = new AbortController();
+    const timers = new Map<ExnestTimeoutPhase, { id: ReturnType<typeof setTimeout>; ms: number }>();
+    const onAbort = () => controller.abort(signal?.reason);
+    let expired: { phase: ExnestTimeoutPhase; ms: number } | undefined;
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const clearTimer = (phase: ExnestTimeoutPhase) => {
+      const timer = timers.get(phase);
+      if (timer) {
+        clearTimeout(timer.id);
+        timers.delete(phase);
+      }
+    };
+
+    return {
+      signal: controller.signal,
+      get expiredPhase() {
+        return expired?.phase;
+      },
+      startTimer: (phase, ms) => {
+        clearTimer(phase);
+        if (!ms || ms <= 0 || controller.signal.aborted) return;
+        const id = setTimeout(() => {
+          expired = { phase, ms };
+          controller.abort();
+        }, ms);
+        timers.set(phase, { id, ms });
+      },
+      clearTimer,
+      timeoutError: () => new TimeoutError(
+        `${TIMEOUT_PHASE_LABELS[expired?.phase || "request"]} timeout after ${expired?.ms}ms`,
+        { phase: expired?.phase }
+      ),
+      dispose: () => {
+        timers.forEach(timer => clearTimeout(timer.id));
+        timers.clear();
+        signal?.removeEventListener("abort", onAbort);
+      },
+    };
+  }
+
+  /**
+   * Whether a request needs the context-limit or cost checks. Callers skip them otherwise,
+   * so requests without checks are still sent synchronously.
+   * @private
+   */
+  private hasPreflightChecks(options: ExnestChatOptions): boolean {
+    return (
+      (options.preflight || this.preflight) !== "off" ||
+      (options.maxCostPerRequest ?? this.maxCostPerRequest) !== undefined ||
+      this.spendTracker?.hasBudget === true
+    );
+  }
+
+  /**
+   * Check prompt plus maxTokens against the model limits and the cost limit.
+   * Without a catalog entry the context check is skipped, but the cost check fails closed
+   * unless allowUnpricedRequests is set.
+   * @private
+   */
+  private async runPreflightChecks<I extends { messages?: ExnestMessage[]; prompt?: string }>(
+    model: string,
+    input: I,
+    options: ExnestChatOptions
+  ): Promise<I & { options: ExnestChatOptions }> {
+    if (this.spendTracker?.hasBudget) {
+      await this.spendTracker.checkBudget();
+    }
+
+    const mode = options.preflight || this.preflight;
+    const maxCost = options.maxCostPerRequest ?? this.maxCostPerRequest;
+    if (mode === "off" && maxCost === undefined) {
+      return { ...input, options };
+    }
+
+    let lookupError: unknown;
+    const info = await this.modelCatalog.get(model, { signal: options.signal }).then(
+      found => (found && typeof found === "object" ? found : null),
+      error => {
+        lookupError = error;
+        return null;
+      }
+    );
+    if (lookupError instanceof RequestAbortedError) {
+      throw lookupError;
+    }
+    if (!info) {
+      this.checkUnpriced(model, maxCost, options, lookupError);
+      if (this.debug) {
+        console.log(`[ExnestAI] No catalog entry for ${model}, skipping preflight checks`);
+      }
+      return { ...input, options };
+    }
+
+    let checked: I & { options: ExnestChatOptions } = { ...input, options };
+    if (mode !== "off" && info.limits) {
+      const result = applyContextPreflight({
+        model,
+        messages: input.messages,
+        prompt: input.prompt,
+        maxTokens: options.maxTokens,
+        limits: info.limits,
+        mode,
+        counter: this.tokenCounter,
+      });
+
+      if (this.debug && (result.messages !== input.messages || result.maxTokens !== options.maxTokens)) {
+        console.log(`[ExnestAI] Preflight truncated request for ${model} (~${result.promptTokens} prompt tokens)`);
+      }
+
+      checked = {
+        ...input,
+        ...(result.messages ? { messages: result.messages } : {}),
+        options: { ...options, maxTokens: result.maxTokens },
+      };
+    }
+
+    if (maxCost !== undefined) {
+      const estimate = estimateRequestCost(
+        info,
+        this.countTokens(checked.messages || checked.prompt || "", model),
+        { maxTokens: checked.options.maxTokens }
+      );
+      if (!estimate) {
+        this.checkUnpriced(model, maxCost, options);
+      } else if (estimate.worstCaseCost > maxCost) {
+        throw new CostLimitExceededError(estimate, maxCost);
+      }
+    }
+
+    return checked;
+  }
+
+  /**
+   * Refuse a request the cost limit cannot price, unless unpriced requests are allowed
+   * @private
+   */
+  private checkUnpriced(model: string, maxCost: number | undefined, options: ExnestChatOptions, cause?: unknown): void {
+    if (maxCost === undefined || (options.allowUnpricedRequests ?? this.allowUnpricedRequests)) {
+      return;
+    }
+    throw new CostEstimateUnavailableError(model, maxCost, { cause });
+  }
+
+  /**
+   * Record billing and usage with the attached SpendTracker; tracking failures never fail the request
+   * @private
+   */
+  private async recordSpend(
+    response: Pick<ExnestBaseResponse, "usage" | "exnest" | "error">,
+    context: ExnestSpendContext
+  ): Promise<void> {
+    if (!this.spendTracker) {
+      return;
+    }
+    try {
+      await this.spendTracker.recordResponse(response, { ...context, apiKey: maskApiKey(context.apiKey), apiKeyId: apiKeyId(context.apiKey) });
     } catch (error: any) {
-      throw new Error(`Streaming failed: ${error.message}`);
+      if (this.debug) {
+        console.error("[ExnestAI] Failed to record spend:", error?.message || error);
+      }
     }
   }
+  /**
+   * Response cache key of a request, or undefined when caching is off for it
+   * @private
+   */
+  private cacheKeyFor(endpoint: string, requestBody: any, options: ExnestChatOptions): string | undefined {
+    if (!this.responseCache || options.cache === false) {
+      return undefined;
+    }
+    return this.responseCache.keyFor(endpoint, requestBody);
+  }
 
   /**
-   * Create standardized error response
+   * Cached response (or stream chunks) marked as a cache hit; store failures count as misses
    * @private
    */
-  private createErrorResponse(error: any): ExnestErrorResponse {
-    let message = "Network error occurred";
-    let code = "network_error";
-    let type = "client_error";
+  private async readCache<T extends object>(key: string): Promise<T | undefined> {
+    try {
+      const entry = await this.responseCache!.get<T>(key);
+      if (!entry) {
+        return undefined;
+      }
+      if (this.debug) {
+        console.log(`[ExnestAI] Cache hit ${key}`);
+      }
+      const cache: ExnestCacheInfo = { hit: true, key, storedAt: new Date(entry.storedAt).toISOString() };
+      return (Array.isArray(entry.value) ? entry.value.map(chunk => ({ ...chunk, cache })) : { ...entry.value, cache }) as T;
+    } catch (error: any) {
+      if (this.debug) {
+        console.error("[ExnestAI] Failed to read response cache:", error?.message || error);
+      }
+      return undefined;
+    }
+  }
 
-    if (error.name === "AbortError") {
-      message = "Request timeout";
-      code = "timeout";
-      type = "timeout_error";
-    } else if (error.message) {
-      message = error.message;
+  /**
+   * Cache a successful response (or the chunks of a completed stream); store failures never fail the request
+   * @private
+   */
+  private async writeCache(key: string, value: ExnestBaseResponse | object[]): Promise<void> {
+    if (!Array.isArray(value) && value.error) {
+      return;
     }
+    try {
+      await this.responseCache!.set(key, value);
+    } catch (error: any) {
+      if (this.debug) {
+        console.error("[ExnestAI] Failed to write response cache:", error?.message || error);
+      }
+    }
+  }
 
+  /**
+   * Pass stream chunks through and cache them once the stream completes
+   * (streams that fail or are abandoned early are not cached)
+   * @private
+   */
+  private async *cacheStream<T extends object>(key: string, source: AsyncGenerator<T, void, unknown>): AsyncGenerator<T, void, unknown> {
+    const chunks: T[] = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+    await this.writeCache(key, chunks);
+  }
+
+
+  /**
+   * Resolve model "auto" with the router. The prompt plus maxTokens raises the minimum
+   * context window, and tools, JSON output, images and streaming become required capabilities.
+   * @private
+   */
+  private async routeModel(
+    input: { messages?: ExnestMessage[]; prompt?: string },
+    options: ExnestChatOptions,
+    capabilities: ExnestModelCapability[] = []
+  ): Promise<string> {
+    const routing = { ...this.routing, ...options.routing };
+    const required = new Set<ExnestModelCapability>([...(routing.capabilities || []), ...capabilities]);
+    if (options.tools?.length) required.add("tools");
+    if (options.responseFormat && options.responseFormat.type !== "text") required.add("json");
+    if (input.messages?.some(message => Array.isArray(message.content) && message.content.some(part => part.type !== "text"))) {
+      required.add("vision");
+    }
+
+    const promptTokens = this.countTokens(input.messages || input.prompt || "");
+    const minContextWindow = Math.max(routing.minContextWindow || 0, promptTokens + (options.maxTokens || 0));
+
+    const model = await this.modelRouter.select(
+      { ...routing, minContextWindow, minMaxTokens: routing.minMaxTokens ?? options.maxTokens, capabilities: [...required] },
+      { signal: options.signal }
+    );
+    if (this.debug) {
+      console.log(`[ExnestAI] Routed model "auto" to ${model.name}`);
+    }
+    return model.name;
+  }
+
+  /**
+   * Wait for a rate limiter slot sized by the prompt estimate plus maxTokens
+   * @private
+   */
+  private acquirePermit(
+    model: string,
+    input: ExnestMessage[] | string,
+    options: ExnestChatOptions
+  ): Promise<ExnestRateLimitPermit> {
+    const tokens = this.countTokens(input, model) + (options.maxTokens || 0);
+    return this.rateLimiter!.acquire(model, tokens, options.signal);
+  }
+
+  /**
+   * Look up a model for getModelLimits and estimateCost; lookup failures resolve to null
+   * @private
+   */
+  private getCachedModel(model: string, options: ExnestModelRequestOptions = {}): Promise<ExnestModel | null> {
+    return this.modelCatalog.get(model, options).then(
+      info => (info && typeof info === "object" ? info : null),
+      () => null
+    );
+  }
+
+  /**
+   * Fetch a models API endpoint for the catalog; error responses are thrown as typed errors
+   * @private
+   */
+  private async fetchModelData(endpoint: string, options: ExnestModelRequestOptions): Promise<any> {
+    const requestTimeout = options.timeout || this.timeout;
+    const result: any = await this.executeRequest(endpoint, null, requestTimeout, "GET", options.signal);
+    if (result?.error) {
+      throw createExnestError(result);
+    }
+    return result;
+  }
+
+  /**
+   * Merge per-call streaming timeouts with the client defaults
+   * @private
+   */
+  private resolveStreamOptions(timeout: number, options: ExnestChatOptions): StreamRequestOptions {
     return {
-      error: {
-        message,
-        code,
-        type,
-        exnest: {
-          details: message,
-          processing_time_ms: 0,
-        },
-      },
-    } as ExnestErrorResponse;
+      timeout,
+      signal: options.signal,
+      firstTokenTimeout: options.firstTokenTimeout ?? this.firstTokenTimeout,
+      idleTimeout: options.idleTimeout ?? this.idleTimeout,
+      maxStreamDuration: options.maxStreamDuration ?? this.maxStreamDuration,
+      tags: options.tags,
+    };
+  }
+
+  /**
+   * Create standardized error response
+   * @private
+   */
+  private createErrorResponse(error: any): ExnestErrorResponse {
+    return toExnestError(error).toErrorResponse();
   }
 
   /**
@@ -632,29 +1758,119 @@ export class ExnestAI {
    */
   private validateInputs(model: string, messages: ExnestMessage[]): void {
     if (!model || typeof model !== "string") {
-      throw new Error("Model must be a non-empty string");
+      throw new InvalidRequestError("Model must be a non-empty string");
     }
 
     if (!Array.isArray(messages) || messages.length === 0) {
-      throw new Error("Messages must be a non-empty array");
+      throw new InvalidRequestError("Messages must be a non-empty array");
     }
 
     for (const message of messages) {
-      if (!message.role || !["system", "user", "assistant"].includes(message.role)) {
-        throw new Error("Each message must have a valid role (system, user, or assistant)");
+      if (!message.role || !["system", "user", "assistant", "tool"].includes(message.role)) {
+        throw new InvalidRequestError("Each message must have a valid role (system, user, assistant, or tool)");
+      }
+
+      const hasToolCalls = Array.isArray(message.tool_calls) && message.tool_calls.length > 0;
+
+      if (message.role === "tool") {
+        if (!message.tool_call_id || typeof message.tool_call_id !== "string") {
+          throw new InvalidRequestError("Tool messages must have a tool_call_id");
+        }
+        if (typeof message.content !== "string") {
+          throw new InvalidRequestError("Tool messages must have string content");
+        }
+        continue;
+      }
+
+      if (message.tool_calls !== undefined && message.role !== "assistant") {
+        throw new InvalidRequestError("Only assistant messages can have tool_calls");
+      }
+
+      // Assistant messages that only request tool calls may omit content
+      if (message.role === "assistant" && hasToolCalls && !message.content) {
+        continue;
+      }
+
+      if (Array.isArray(message.content)) {
+        if (!isContentPartArray(message.content)) {
+          throw new InvalidRequestError("Message content parts must be text, image_url, or file parts");
+        }
+        continue;
       }
+
       if (!message.content || typeof message.content !== "string") {
-        throw new Error("Each message must have non-empty content");
+        throw new InvalidRequestError("Each message must have non-empty content");
       }
     }
   }
 
+  /**
+   * Add chat-only parameters (tools, response format) to a request body
+   * @private
+   */
+  private applyChatOptions(requestBody: any, options: ExnestChatOptions): void {
+    if (options.tools !== undefined) {
+      requestBody.tools = options.tools;
+    }
+    if (options.toolChoice !== undefined) {
+      requestBody.tool_choice = options.toolChoice;
+    }
+    if (options.parallelToolCalls !== undefined) {
+      requestBody.parallel_tool_calls = options.parallelToolCalls;
+    }
+    if (options.responseFormat !== undefined) {
+      requestBody.response_format = options.responseFormat;
+    }
+  }
+
+  /**
+   * Compute the backoff for a failed attempt, notify onRetry and wait
+   * @private
+   */
+  private async waitBeforeRetry(
+    attempt: number,
+    endpoint: string,
+    details: Pick<ExnestRetryInfo, "status" | "code" | "error" | "retryAfterMs">,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const delayMs = computeRetryDelay(this.retryPolicy, attempt, this.retryDelay, details.retryAfterMs);
+
+    if (this.debug) {
+      console.log(`[ExnestAI] Retrying ${endpoint} in ${delayMs}ms`);
+    }
+
+    this.retryPolicy.onRetry?.({
+      attempt: attempt + 1,
+      maxRetries: this.retries,
+      delayMs,
+      endpoint,
+      ...details,
+    });
+
+    await this.delay(delayMs, signal);
+  }
+
   /**
    * Delay utility for retry logic
    * @private
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new RequestAbortedError(undefined, { cause: signal?.reason }));
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+
+      if (signal?.aborted) {
+        onAbort();
+      } else {
+        signal?.addEventListener("abort", onAbort, { once: true });
+      }
+    });
   }
 
   /**
@@ -666,7 +1882,12 @@ export class ExnestAI {
     retries: number;
     retryDelay: number;
     debug: boolean;
+    throwOnError: boolean;
+    preflight: ExnestPreflightMode;
+    maxCostPerRequest?: number;
     apiKey: string;
+    apiKeys: ExnestApiKeyStatus[];
+    userAgent: string;
   } {
     return {
       baseUrl: this.baseUrl,
@@ -674,29 +1895,68 @@ export class ExnestAI {
       retries: this.retries,
       retryDelay: this.retryDelay,
       debug: this.debug,
+      throwOnError: this.throwOnError,
+      preflight: this.preflight,
+      maxCostPerRequest: this.maxCostPerRequest,
       apiKey: this.getApiKeyInfo(),
+      apiKeys: this.keyPool.getStatus(),
+      userAgent: this.userAgent,
     };
   }
 
   /**
-   * Get masked API key info
+   * Rate limiter queue depth, slots in use and wait times (undefined without rateLimits)
+   */
+  getRateLimitStats(): ExnestRateLimiterStats | undefined {
+    return this.rateLimiter?.getStats();
+  }
+
+  /**
+   * Get masked API key info; pools list every key with its state
    */
   getApiKeyInfo(): string {
-    if (!this.apiKey) return "No API key set";
-    const visiblePart = this.apiKey.slice(-4);
-    return `****${visiblePart}`;
+    const status = this.keyPool.getStatus();
+    if (status.length === 0) return "No API key set";
+    if (status.length === 1) return status[0].key;
+    return status
+      .map(entry => `${entry.label ? `${entry.label} ` : ""}${entry.key}${entry.state === "active" ? "" : ` (${entry.state})`}`)
+      .join(", ");
   }
 
   /**
    * Update configuration
    */
   updateConfig(config: Partial<ExnestClientOptions>): void {
-    if (config.apiKey) this.apiKey = config.apiKey;
+    // Requests in flight keep the key they already took from the old pool
+    if (config.apiKeys) this.keyPool = toApiKeyPool(undefined, config.apiKeys);
+    else if (config.apiKey) this.keyPool = toApiKeyPool(config.apiKey);
     if (config.baseUrl) this.baseUrl = config.baseUrl;
     if (config.timeout !== undefined) this.timeout = config.timeout;
     if (config.retries !== undefined) this.retries = config.retries;
     if (config.retryDelay !== undefined) this.retryDelay = config.retryDelay;
+    if (config.retryPolicy !== undefined) this.retryPolicy = config.retryPolicy;
+    if (config.firstTokenTimeout !== undefined) this.firstTokenTimeout = config.firstTokenTimeout;
+    if (config.idleTimeout !== undefined) this.idleTimeout = config.idleTimeout;
+    if (config.maxStreamDuration !== undefined) this.maxStreamDuration = config.maxStreamDuration;
     if (config.debug !== undefined) this.debug = config.debug;
+    if (config.throwOnError !== undefined) this.throwOnError = config.throwOnError;
+    if (config.tokenCounter !== undefined) this.tokenCounter = config.tokenCounter;
+    if (config.preflight !== undefined) this.preflight = config.preflight;
+    if (config.maxCostPerRequest !== undefined) this.maxCostPerRequest = config.maxCostPerRequest;
+    if (config.allowUnpricedRequests !== undefined) this.allowUnpricedRequests = config.allowUnpricedRequests;
+    if (config.spendTracker !== undefined) this.spendTracker = config.spendTracker;
+    if (config.modelCacheTtl !== undefined) this.modelCatalog.setTtl(config.modelCacheTtl);
+    if (config.routing !== undefined) {
+      this.routing = config.routing;
+      this.modelRouter = new ModelRouter(this.modelCatalog, config.routing);
+    }
+    if (config.fallbackOn !== undefined) this.fallbackOn = config.fallbackOn;
+    if (config.rateLimits !== undefined) this.rateLimiter = toRateLimiter(config.rateLimits);
+    if (config.cache !== undefined) this.responseCache = toResponseCache(config.cache);
+    if (config.middleware !== undefined) this.middleware = [...config.middleware];
+    if (config.fetch !== undefined) this.fetch = resolveFetch(config.fetch);
+    if (config.headers !== undefined) this.headers = config.headers;
+    if (config.userAgent !== undefined) this.userAgent = buildUserAgent(config.userAgent);
   }
 
   /**
@@ -722,4 +1982,29 @@ export class ExnestAI {
       config: this.getConfig(),
     };
   }
-}
\ No newline at end of file
+}
+
+function toApiKeyPool(apiKey?: string, apiKeys?: ExnestClientOptions["apiKeys"]): ApiKeyPool {
+  if (apiKeys instanceof ApiKeyPool) {
+    return apiKeys;
+  }
+  return new ApiKeyPool({ keys: apiKeys?.length ? apiKeys : apiKey ? [apiKey] : [] });
+}
+
+function isKeyError(error: ExnestError): boolean {
+  return error instanceof AuthenticationError || error instanceof InsufficientBalanceError;
+}
+
+function toRateLimiter(rateLimits?: ExnestClientOptions["rateLimits"]): RateLimiter | undefined {
+  if (!rateLimits || rateLimits instanceof RateLimiter) {
+    return rateLimits;
+  }
+  return new RateLimiter(rateLimits);
+}
+
+function toResponseCache(cache?: ExnestClientOptions["cache"]): ResponseCache | undefined {
+  if (!cache || cache instanceof ResponseCache) {
+    return cache;
+  }
+  return new ResponseCache(cache);
+}
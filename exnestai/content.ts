@@ -0,0 +1,194 @@
+/**
+ * ExnestAI Message Content
+ * OpenAI-compatible content parts for multimodal messages and helpers to build them
+ */
+
+import { loadFs } from "./files";
+
+export interface ExnestTextContentPart {
+  type: "text";
+  text: string;
+}
+
+export interface ExnestImageContentPart {
+  type: "image_url";
+  image_url: {
+    url: string;  // Remote URL or base64 data URL (data:image/png;base64,...)
+    detail?: "auto" | "low" | "high";
+  };
+}
+
+export interface ExnestFileContentPart {
+  type: "file";
+  file: {
+    filename?: string;
+    file_data?: string;  // Base64 data URL
+    file_id?: string;
+  };
+}
+
+export type ExnestContentPart = ExnestTextContentPart | ExnestImageContentPart | ExnestFileContentPart;
+
+// Message content is either plain text or an array of content parts
+export type ExnestMessageContent = string | ExnestContentPart[];
+
+export interface ExnestImagePartOptions {
+  mimeType?: string;  // Detected from the data or file extension when omitted
+  detail?: "auto" | "low" | "high";
+}
+
+export interface ExnestFilePartOptions {
+  mimeType?: string;
+  filename?: string;
+}
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  heic: "image/heic",
+  heif: "image/heif",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+};
+
+/**
+ * Build a text content part
+ */
+export function textPart(text: string): ExnestTextContentPart {
+  return { type: "text", text };
+}
+
+/**
+ * Build an image content part from a remote URL
+ */
+export function imagePartFromUrl(url: string, detail?: ExnestImagePartOptions["detail"]): ExnestImageContentPart {
+  return { type: "image_url", image_url: detail ? { url, detail } : { url } };
+}
+
+/**
+ * Build an image content part from base64-encoded image data
+ */
+export function imagePartFromBase64(
+  data: string,
+  mimeType: string,
+  detail?: ExnestImagePartOptions["detail"]
+): ExnestImageContentPart {
+  return imagePartFromUrl(`data:${mimeType};base64,${data}`, detail);
+}
+
+/**
+ * Build an image content part from raw bytes (Buffer or Uint8Array)
+ */
+export function imagePartFromBuffer(data: Uint8Array, options: ExnestImagePartOptions = {}): ExnestImageContentPart {
+  const mimeType = options.mimeType || detectMimeType(data);
+  if (!mimeType || !mimeType.startsWith("image/")) {
+    throw new Error("Unable to determine image MIME type, pass options.mimeType");
+  }
+  return imagePartFromBase64(toBase64(data), mimeType, options.detail);
+}
+
+/**
+ * Build an image content part from a local file (Node.js only)
+ */
+export async function imagePartFromFile(path: string, options: ExnestImagePartOptions = {}): Promise<ExnestImageContentPart> {
+  const data = await readLocalFile(path);
+  const mimeType = options.mimeType || detectMimeType(data, path);
+  return imagePartFromBuffer(data, { ...options, mimeType });
+}
+
+/**
+ * Build a file content part from raw bytes (Buffer or Uint8Array)
+ */
+export function filePartFromBuffer(data: Uint8Array, options: ExnestFilePartOptions = {}): ExnestFileContentPart {
+  const mimeType = options.mimeType || detectMimeType(data, options.filename) || "application/octet-stream";
+  return {
+    type: "file",
+    file: {
+      ...(options.filename ? { filename: options.filename } : {}),
+      file_data: `data:${mimeType};base64,${toBase64(data)}`,
+    },
+  };
+}
+
+/**
+ * Build a file content part from a local file (Node.js only)
+ */
+export async function filePartFromFile(path: string, options: ExnestFilePartOptions = {}): Promise<ExnestFileContentPart> {
+  const data = await readLocalFile(path);
+  const filename = options.filename || path.split(/[\\/]/).pop();
+  return filePartFromBuffer(data, { ...options, filename });
+}
+
+/**
+ * Detect a MIME type from file signature bytes, falling back to the file extension
+ * @returns The MIME type, or undefined when it cannot be determined
+ */
+export function detectMimeType(data?: Uint8Array, filename?: string): string | undefined {
+  if (data && data.length >= 4) {
+    const startsWith = (...bytes: number[]) => bytes.every((byte, i) => data[i] === byte);
+
+    if (startsWith(0x89, 0x50, 0x4e, 0x47)) return "image/png";
+    if (startsWith(0xff, 0xd8, 0xff)) return "image/jpeg";
+    if (startsWith(0x47, 0x49, 0x46, 0x38)) return "image/gif";
+    if (startsWith(0x25, 0x50, 0x44, 0x46)) return "application/pdf";
+    if (startsWith(0x42, 0x4d)) return "image/bmp";
+    if (
+      data.length >= 12 &&
+      startsWith(0x52, 0x49, 0x46, 0x46) &&
+      data[8] === 0x57 && data[9] === 0x45 && data[10] === 0x42 && data[11] === 0x50
+    ) {
+      return "image/webp";
+    }
+  }
+
+  const extension = filename?.split(".").pop()?.toLowerCase();
+  return extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+}
+
+/**
+ * Check whether a value is a valid array of content parts
+ */
+export function isContentPartArray(content: unknown): content is ExnestContentPart[] {
+  if (!Array.isArray(content) || content.length === 0) {
+    return false;
+  }
+
+  return content.every((part: any) => {
+    if (!part || typeof part !== "object") return false;
+    switch (part.type) {
+      case "text":
+        return typeof part.text === "string";
+      case "image_url":
+        return typeof part.image_url?.url === "string" && part.image_url.url.length > 0;
+      case "file":
+        return typeof part.file === "object" && part.file !== null && (typeof part.file.file_data === "string" || typeof part.file.file_id === "string");
+      default:
+        return false;
+    }
+  });
+}
+
+function toBase64(data: Uint8Array): string {
+  if (typeof Buffer !== "undefined") {
+    return Buffer.from(data.buffer, data.byteOffset, data.byteLength).toString("base64");
+  }
+
+  let binary = "";
+  for (let i = 0; i < data.length; i++) {
+    binary += String.fromCharCode(data[i]);
+  }
+  return btoa(binary);
+}
+
+async function readLocalFile(path: string): Promise<Uint8Array> {
+  const { readFile } = await loadFs();
+  return readFile(path);
+}
@@ -0,0 +1,260 @@
+/**
+ * ExnestAI Conversation
+ * Chat session that keeps its history and stays within the model's context window
+ */
+
+import type {
+  ExnestAI,
+  ExnestChatOptions,
+  ExnestChatResponse,
+  ExnestMessage,
+  ExnestStreamChunk,
+} from "./client.services";
+import type { ExnestMessageContent } from "./content";
+import { ChatStreamAccumulator } from "./accumulator";
+import { ExnestChatStream } from "./stream";
+import { contentToText, splitTurns } from "./tokens";
+
+export interface ExnestConversationOptions extends Omit<ExnestChatOptions, "stream"> {
+  system?: string;                 // Pinned system prompt, never trimmed
+  messages?: ExnestMessage[];      // Initial history; a leading system message becomes the pinned prompt
+  maxContextTokens?: number;       // Prompt token budget (default: model context window minus the reply reserve)
+  reserveTokens?: number;          // Tokens kept free for the reply when maxTokens is not set (default: 1024)
+  strategy?: "trim" | "summarize"; // What to do with older turns over budget (default: "trim")
+  summarize?: (messages: ExnestMessage[], previousSummary?: string) => Promise<string>;  // Custom summarizer
+}
+
+const DEFAULT_RESERVE_TOKENS = 1024;
+
+const SUMMARY_INSTRUCTIONS =
+  "Summarize the conversation below so it can replace the original messages. " +
+  "Keep facts, decisions, names, numbers and open questions. Reply with the summary only.";
+
+/**
+ * Chat session bound to one client and model
+ *
+ * Keeps the message history, pins the system prompt and drops (or summarizes) the oldest
+ * turns before each request so the prompt stays under the token budget. The budget defaults
+ * to the model's `limits.contextWindow` when the models endpoint reports it, and prompts are
+ * measured with the client's TokenCounter.
+ */
+export class Conversation {
+  private readonly client: ExnestAI;
+  private readonly model: string;
+  private readonly options: ExnestConversationOptions;
+  private systemPrompt?: string;
+  private summary?: string;
+  private history: ExnestMessage[];
+
+  constructor(client: ExnestAI, model: string, options: ExnestConversationOptions = {}) {
+    const { system, messages = [], ...rest } = options;
+    const [first, ...others] = messages;
+    const leadingSystem = first?.role === "system" && typeof first.content === "string" ? first.content : undefined;
+
+    this.client = client;
+    this.model = model;
+    this.options = rest;
+    this.systemPrompt = system ?? leadingSystem;
+    this.history = leadingSystem !== undefined ? others : [...messages];
+  }
+
+  /**
+   * Messages sent with the next request: system prompt, summary of trimmed turns and history
+   */
+  get messages(): ExnestMessage[] {
+    const messages: ExnestMessage[] = [];
+    if (this.systemPrompt) {
+      messages.push({ role: "system", content: this.systemPrompt });
+    }
+    if (this.summary) {
+      messages.push({ role: "system", content: `Summary of the earlier conversation:\n${this.summary}` });
+    }
+    return messages.concat(this.history);
+  }
+
+  get system(): string | undefined {
+    return this.systemPrompt;
+  }
+
+  /**
+   * Replace the pinned system prompt
+   */
+  setSystem(prompt: string | undefined): this {
+    this.systemPrompt = prompt;
+    return this;
+  }
+
+  /**
+   * Clear the history and summary, keeping the system prompt
+   */
+  reset(): this {
+    this.history = [];
+    this.summary = undefined;
+    return this;
+  }
+
+  /**
+   * Send a user message and add the assistant reply to the history
+   * @param content - User message text or content parts (or a complete message)
+   * @param options - Chat options for this request, merged over the conversation options
+   * @returns Promise<ExnestChatResponse>
+   */
+  async send(content: ExnestMessageContent | ExnestMessage, options: ExnestChatOptions = {}): Promise<ExnestChatResponse> {
+    const userMessage = toUserMessage(content);
+    this.history.push(userMessage);
+
+    let response: ExnestChatResponse;
+    try {
+      const chatOptions = this.chatOptions(options);
+      await this.fitToBudget(chatOptions);
+      response = await this.client.chat(this.model, this.messages, chatOptions);
+    } catch (error) {
+      this.removeMessage(userMessage);
+      throw error;
+    }
+
+    const message = response.choices?.[0]?.message;
+    if (response.error || !message) {
+      this.removeMessage(userMessage);
+      return response;
+    }
+
+    this.history.push({
+      role: "assistant",
+      content: message.content ?? null,
+      ...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+    });
+    return response;
+  }
+
+  /**
+   * Stream the reply to a user message; it is added to the history once the stream completes
+   * @param content - User message text or content parts (or a complete message)
+   * @param options - Chat options for this request, merged over the conversation options
+   * @returns ExnestChatStream
+   */
+  sendStream(content: ExnestMessageContent | ExnestMessage, options: ExnestChatOptions = {}): ExnestChatStream {
+    return new ExnestChatStream(this.streamTurn(toUserMessage(content), options));
+  }
+
+  private async *streamTurn(
+    userMessage: ExnestMessage,
+    options: ExnestChatOptions
+  ): AsyncGenerator<ExnestStreamChunk, void, unknown> {
+    this.history.push(userMessage);
+    const accumulator = new ChatStreamAccumulator();
+    let completed = false;
+
+    try {
+      const chatOptions = this.chatOptions(options);
+      await this.fitToBudget(chatOptions);
+
+      for await (const chunk of this.client.stream(this.model, this.messages, chatOptions)) {
+        accumulator.add(chunk);
+        yield chunk;
+      }
+      completed = true;
+    } finally {
+      // A failed or abandoned turn is not kept, so the history never ends on an unanswered message
+      if (!completed) {
+        this.removeMessage(userMessage);
+      }
+    }
+
+    const message = accumulator.toResponse().choices?.[0]?.message;
+    this.history.push({
+      role: "assistant",
+      content: message?.content ?? null,
+      ...(message?.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+    });
+  }
+
+  private chatOptions(options: ExnestChatOptions): ExnestChatOptions {
+    const { maxContextTokens, reserveTokens, strategy, summarize, ...defaults } = this.options;
+    return { ...defaults, ...options };
+  }
+
+  /**
+   * Drop or summarize the oldest turns until the prompt fits the token budget.
+   * The pinned system prompt and the latest turn are always kept.
+   */
+  private async fitToBudget(chatOptions: ExnestChatOptions): Promise<void> {
+    const budget = await this.resolveBudget(chatOptions);
+    if (!budget || this.client.countTokens(this.messages, this.model) <= budget) {
+      return;
+    }
+
+    const history = this.history;
+    const turns = splitTurns(this.history);
+    const dropped: ExnestMessage[] = [];
+    while (turns.length > 1 && this.client.countTokens(this.messages, this.model) > budget) {
+      const turn = turns.shift()!;
+      dropped.push(...turn);
+      this.history = turns.flat();
+    }
+
+    if (this.options.strategy !== "summarize" || dropped.length === 0) {
+      return;
+    }
+
+    const summarize = this.options.summarize || ((messages, previous) => this.summarizeWithModel(messages, previous));
+    try {
+      this.summary = await summarize(dropped, this.summary);
+    } catch (error) {
+      // Put the dropped turns back: without a summary they would be lost for good
+      this.history = history;
+      throw error;
+    }
+
+    // Trim again in case the summary itself pushed the prompt over budget
+    while (turns.length > 1 && this.client.countTokens(this.messages, this.model) > budget) {
+      turns.shift();
+      this.history = turns.flat();
+    }
+  }
+
+  private async resolveBudget(chatOptions: ExnestChatOptions): Promise<number | undefined> {
+    if (this.options.maxContextTokens) {
+      return this.options.maxContextTokens;
+    }
+
+    const limits = await this.client.getModelLimits(this.model, { signal: chatOptions.signal });
+    if (!limits?.contextWindow) {
+      return undefined;
+    }
+    const reserve = chatOptions.maxTokens ?? this.options.reserveTokens ?? DEFAULT_RESERVE_TOKENS;
+    return Math.max(limits.contextWindow - reserve, 1);
+  }
+
+  private async summarizeWithModel(messages: ExnestMessage[], previousSummary?: string): Promise<string> {
+    const transcript = messages.map(message => `${message.role}: ${contentToText(message.content)}`).join("\n");
+    const response = await this.client.chat(this.model, [
+      { role: "system", content: SUMMARY_INSTRUCTIONS },
+      {
+        role: "user",
+        content: previousSummary ? `Earlier summary:\n${previousSummary}\n\nConversation:\n${transcript}` : transcript,
+      },
+    ], { signal: this.options.signal, timeout: this.options.timeout });
+
+    const summary = response.choices?.[0]?.message?.content;
+    if (response.error || !summary) {
+      // Keep the previous summary rather than failing the user's request
+      return previousSummary || "";
+    }
+    return summary;
+  }
+
+  private removeMessage(message: ExnestMessage): void {
+    const index = this.history.lastIndexOf(message);
+    if (index !== -1) {
+      this.history.splice(index, 1);
+    }
+  }
+}
+
+function toUserMessage(content: ExnestMessageContent | ExnestMessage): ExnestMessage {
+  if (typeof content === "object" && !Array.isArray(content)) {
+    return content;
+  }
+  return { role: "user", content };
+}
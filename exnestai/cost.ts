@@ -0,0 +1,129 @@
+/**
+ * ExnestAI Cost Estimation
+ * Pre-request cost estimates from the model catalog pricing
+ */
+
+import type { ExnestModel } from "./client.services";
+import { ExnestError, type ExnestErrorOptions } from "./errors";
+
+export interface ExnestCostEstimateOptions {
+  maxTokens?: number;                 // Completion limit of the request (default: the model's limits.maxTokens)
+  expectedCompletionTokens?: number;  // Likely completion length (default: half of the completion limit)
+  signal?: AbortSignal;               // Cancel the catalog lookup
+}
+
+export interface ExnestCostEstimate {
+  model: string;
+  currency: string;                   // Pricing currency reported by the catalog (normally USD)
+  promptTokens: number;
+  maxCompletionTokens: number;
+  expectedCompletionTokens: number;
+  inputCost: number;
+  expectedCost: number;               // Prompt plus expected completion
+  worstCaseCost: number;              // Prompt plus the full completion limit
+}
+
+/**
+ * Thrown before sending when the worst-case estimate exceeds maxCostPerRequest
+ */
+export class CostLimitExceededError extends ExnestError {
+  readonly estimate: ExnestCostEstimate;
+  readonly limit: number;
+
+  constructor(estimate: ExnestCostEstimate, limit: number, options: ExnestErrorOptions = {}) {
+    super(
+      `Estimated worst-case cost ${formatCost(estimate.worstCaseCost)} ${estimate.currency} for ${estimate.model} ` +
+        `exceeds maxCostPerRequest (${formatCost(limit)})`,
+      { ...options, code: options.code || "cost_limit_exceeded", type: options.type || "billing_error" }
+    );
+    this.estimate = estimate;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Thrown before sending when maxCostPerRequest is set but the model has no usable pricing
+ * (catalog lookup failed, unknown model or unparseable prices), unless allowUnpricedRequests is set
+ */
+export class CostEstimateUnavailableError extends ExnestError {
+  readonly model: string;
+  readonly limit: number;
+
+  constructor(model: string, limit: number, options: ExnestErrorOptions = {}) {
+    super(
+      `Cannot check maxCostPerRequest (${formatCost(limit)}) for ${model}: no pricing available`,
+      { ...options, code: options.code || "cost_estimate_unavailable", type: options.type || "billing_error" }
+    );
+    this.model = model;
+    this.limit = limit;
+  }
+}
+
+const DEFAULT_PRICING_UNIT = 1_000_000;
+const UNIT_MULTIPLIERS: Record<string, number> = { k: 1_000, m: 1_000_000 };
+
+/**
+ * Number of tokens a catalog price applies to, from `pricing.per`
+ * (e.g. "1M tokens", "1K", "1000", "token")
+ */
+export function parsePricingUnit(per: string | number | undefined): number {
+  if (typeof per === "number") {
+    return per > 0 ? per : DEFAULT_PRICING_UNIT;
+  }
+  if (!per) {
+    return DEFAULT_PRICING_UNIT;
+  }
+
+  const match = /([\d.,]+)\s*([kKmM])?/.exec(per);
+  if (!match) {
+    // "token" / "per token" without a number
+    return /token/i.test(per) ? 1 : DEFAULT_PRICING_UNIT;
+  }
+
+  const amount = Number(match[1].replace(/,/g, ""));
+  const multiplier = match[2] ? UNIT_MULTIPLIERS[match[2].toLowerCase()] : 1;
+  return amount > 0 ? amount * multiplier : DEFAULT_PRICING_UNIT;
+}
+
+/**
+ * Estimate the cost of a request from the model pricing and the prompt size
+ * @param model - Catalog entry with pricing and limits
+ * @param promptTokens - Estimated prompt tokens (see TokenCounter)
+ * @param options - Completion limit and expected completion length
+ * @returns The estimate, or undefined when the model has no usable pricing
+ */
+export function estimateRequestCost(
+  model: Pick<ExnestModel, "name" | "pricing" | "limits">,
+  promptTokens: number,
+  options: ExnestCostEstimateOptions = {}
+): ExnestCostEstimate | undefined {
+  const inputPrice = Number(model.pricing?.inputPrice);
+  const outputPrice = Number(model.pricing?.outputPrice);
+  if (!Number.isFinite(inputPrice) || !Number.isFinite(outputPrice)) {
+    return undefined;
+  }
+
+  const unit = parsePricingUnit(model.pricing.per);
+  const contextRemainder = model.limits?.contextWindow ? Math.max(model.limits.contextWindow - promptTokens, 0) : 0;
+  const maxCompletionTokens = options.maxTokens ?? (model.limits?.maxTokens || contextRemainder);
+  const expectedCompletionTokens = Math.min(
+    options.expectedCompletionTokens ?? Math.ceil(maxCompletionTokens / 2),
+    maxCompletionTokens
+  );
+
+  const inputCost = (promptTokens / unit) * inputPrice;
+  return {
+    model: model.name,
+    currency: model.pricing.currency || "USD",
+    promptTokens,
+    maxCompletionTokens,
+    expectedCompletionTokens,
+    inputCost,
+    expectedCost: inputCost + (expectedCompletionTokens / unit) * outputPrice,
+    worstCaseCost: inputCost + (maxCompletionTokens / unit) * outputPrice,
+  };
+}
+
+function formatCost(value: number): string {
+  return `$${value.toFixed(6).replace(/0+$/, "").replace(/\.$/, ".00")}`;
+}
@@ -74,8 +74,8 @@ async function demo() {
         maxTokens: 100
       }
     )) {
-      if (chunk.choices[0]?.delta?.content) {
-        process.stdout.write(chunk.choices[0].delta.content);
+      if (chunk.choices[0]?.text) {
+        process.stdout.write(chunk.choices[0].text);
       }
     }
     console.log("\n");
@@ -112,14 +112,9 @@ async function demo() {
   // 5. Get available models
   console.log("5. Available Models:");
   try {
-    const modelsResponse = await exnest.getModels();
-    
-    if (modelsResponse.error) {
-      console.log("Error fetching models:", modelsResponse.error.message);
-    } else {
-      console.log("Total models available:", modelsResponse.choices?.length || "N/A");
-      console.log("Models response received successfully");
-    }
+    const models = await exnest.getModels();
+    console.log("Total models available:", models.length);
+    console.log("Active models:", models.filter(model => model.isActive).map(model => model.name).join(", "));
   } catch (error) {
     console.error("Models error:", error);
   }
@@ -0,0 +1,183 @@
+/**
+ * ExnestAI Errors
+ * Typed error hierarchy shared by the client, streaming and helper APIs
+ */
+
+import type { ExnestErrorResponse } from "./client.services";
+import { parseRetryAfter } from "./retry";
+
+// Exnest-specific error details returned by the API
+export interface ExnestErrorDetails {
+  transaction_refunded?: boolean;
+  processing_time_ms?: number;
+  original_error?: string;
+  details?: string;
+}
+
+// Which timeout expired: whole request, stream connection, first chunk, gap between chunks, or total stream time
+export type ExnestTimeoutPhase = "request" | "connect" | "first_token" | "idle" | "total";
+
+export interface ExnestErrorOptions {
+  status?: number;
+  code?: string;
+  type?: string;
+  exnest?: ExnestErrorDetails;
+  retryAfterMs?: number;
+  phase?: ExnestTimeoutPhase;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class ExnestError extends Error {
+  readonly status?: number;  // HTTP status, when the error came from a response
+  readonly code: string;
+  readonly type: string;
+  readonly exnest?: ExnestErrorDetails;
+  readonly cause?: unknown;
+
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.status = options.status;
+    this.code = options.code || "exnest_error";
+    this.type = options.type || "api_error";
+    this.exnest = options.exnest;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Whether the billed amount was refunded for the failed request
+   */
+  get transactionRefunded(): boolean {
+    return this.exnest?.transaction_refunded === true;
+  }
+
+  /**
+   * Convert to the OpenAI-compatible error response shape
+   */
+  toErrorResponse(): ExnestErrorResponse {
+    return {
+      error: {
+        message: this.message,
+        type: this.type,
+        code: this.code,
+        exnest: this.exnest || { details: this.message, processing_time_ms: 0 },
+      },
+    };
+  }
+}
+
+export class InvalidRequestError extends ExnestError {
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "invalid_request", type: options.type || "invalid_request_error" });
+  }
+}
+
+export class AuthenticationError extends ExnestError {
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "invalid_api_key", type: options.type || "authentication_error" });
+  }
+}
+
+export class InsufficientBalanceError extends ExnestError {
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "insufficient_balance", type: options.type || "billing_error" });
+  }
+}
+
+export class RateLimitError extends ExnestError {
+  readonly retryAfterMs?: number;  // Server-requested wait from the Retry-After header
+
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "rate_limit_exceeded", type: options.type || "rate_limit_error" });
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class ModelNotFoundError extends ExnestError {
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "model_not_found", type: options.type || "invalid_request_error" });
+  }
+}
+
+export class TimeoutError extends ExnestError {
+  readonly phase?: ExnestTimeoutPhase;
+
+  constructor(message = "Request timeout", options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "timeout", type: options.type || "timeout_error" });
+    this.phase = options.phase;
+  }
+}
+
+export class RequestAbortedError extends ExnestError {
+  constructor(message = "Request aborted", options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "aborted", type: options.type || "aborted_error" });
+  }
+}
+
+export class NetworkError extends ExnestError {
+  constructor(message = "Network error occurred", options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "network_error", type: options.type || "client_error" });
+  }
+}
+
+export class StreamError extends ExnestError {
+  constructor(message: string, options: ExnestErrorOptions = {}) {
+    super(message, { ...options, code: options.code || "stream_error", type: options.type || "stream_error" });
+  }
+}
+
+const AUTHENTICATION_CODES = ["invalid_api_key", "authentication_error", "unauthorized", "forbidden"];
+const BALANCE_CODES = ["insufficient_balance", "insufficient_funds", "insufficient_quota", "payment_required"];
+const RATE_LIMIT_CODES = ["rate_limit_exceeded", "rate_limited", "too_many_requests"];
+const MODEL_NOT_FOUND_CODES = ["model_not_found", "model_not_available"];
+const TIMEOUT_CODES = ["timeout", "request_timeout", "gateway_timeout"];
+
+/**
+ * Map an API error payload and HTTP status to the matching error class
+ * @param body - Parsed response body (OpenAI-compatible error shape when available)
+ * @param status - HTTP status of the response
+ * @param headers - Response headers, used for Retry-After
+ */
+export function createExnestError(body: any, status?: number, headers?: Headers): ExnestError {
+  const error = body?.error && typeof body.error === "object" ? body.error : {};
+  const message: string =
+    error.message ||
+    (typeof body?.error === "string" ? body.error : undefined) ||
+    body?.message ||
+    `Request failed${status ? ` with status ${status}` : ""}`;
+  const code: string | undefined = error.code ? String(error.code) : undefined;
+  const options: ExnestErrorOptions = { status, code, type: error.type, exnest: error.exnest };
+
+  if (status === 401 || status === 403 || (code && AUTHENTICATION_CODES.includes(code))) {
+    return new AuthenticationError(message, options);
+  }
+  if (status === 402 || (code && BALANCE_CODES.includes(code))) {
+    return new InsufficientBalanceError(message, options);
+  }
+  if (status === 429 || (code && RATE_LIMIT_CODES.includes(code))) {
+    return new RateLimitError(message, { ...options, retryAfterMs: parseRetryAfter(headers?.get("retry-after")) });
+  }
+  if (status === 404 || (code && MODEL_NOT_FOUND_CODES.includes(code))) {
+    return new ModelNotFoundError(message, options);
+  }
+  if (status === 408 || status === 504 || (code && TIMEOUT_CODES.includes(code))) {
+    return new TimeoutError(message, options);
+  }
+  return new ExnestError(message, options);
+}
+
+/**
+ * Wrap an unknown thrown value (fetch failure, abort, etc.) in an ExnestError
+ */
+export function toExnestError(error: any): ExnestError {
+  if (error instanceof ExnestError) {
+    return error;
+  }
+  if (error?.name === "AbortError" || error?.name === "TimeoutError") {
+    return new TimeoutError("Request timeout", { cause: error });
+  }
+  return new NetworkError(error?.message || "Network error occurred", { cause: error });
+}
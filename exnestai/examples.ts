@@ -89,8 +89,8 @@ export async function exampleAdvancedClient() {
         const config = exnest.getConfig();
         console.log("Client config:", config);
         
-        // Get all models (OpenAI-compatible by default)
-        const models = await exnest.getModels();
+        // Get all models in the OpenAI /v1/models shape
+        const models = await exnest.getModels({ openaiCompatible: true });
         console.log("Available models:", models);
         
     } catch (error) {
@@ -116,8 +116,8 @@ export async function exampleStreaming() {
                 maxTokens: 300
             }
         )) {
-            if (chunk.choices[0]?.delta?.content) {
-                process.stdout.write(chunk.choices[0].delta.content);
+            if (chunk.choices[0]?.text) {
+                process.stdout.write(chunk.choices[0].text);
             }
         }
         
@@ -209,9 +209,13 @@ export async function exampleModelOperations() {
         const openaiModels = await exnest.getModelsByProvider("openai");
         console.log("OpenAI models:", openaiModels);
         
-        // Get a specific model
-        const specificModel = await exnest.getModel("gpt-4o-mini");
-        console.log("Specific model:", specificModel);
+        // Get a specific model (names are URL-encoded)
+        const specificModel = await exnest.getModel("openai:gpt-4o-mini");
+        console.log("Specific model:", specificModel.limits);
+
+        // Search and filter the cached catalog
+        const cheapModels = await exnest.catalog.find({ maxInputPrice: 1, minContextWindow: 128000, isActive: true });
+        console.log("Cheap long-context models:", cheapModels.map(model => model.name));
         
     } catch (error) {
         console.error("Model operations error:", error);
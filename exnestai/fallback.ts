@@ -0,0 +1,89 @@
+/**
+ * ExnestAI Model Fallback
+ * Decides when a failed request moves on to the next model of a fallback chain
+ */
+
+import {
+  ExnestError,
+  ModelNotFoundError,
+  NetworkError,
+  RateLimitError,
+  StreamError,
+  TimeoutError,
+  type ExnestErrorOptions,
+} from "./errors";
+
+// Failure classes that can trigger a fallback
+export type ExnestFallbackReason = "timeout" | "server_error" | "rate_limit" | "model_not_found" | "network";
+
+// A failure class, or a predicate for custom decisions
+export type ExnestFallbackCondition = ExnestFallbackReason | ((error: ExnestError) => boolean);
+
+export interface ExnestFallbackAttempt {
+  model: string;
+  error: ExnestError;
+}
+
+// Reported on responses (and the first stream chunk) of requests with a models chain
+export interface ExnestFallbackInfo {
+  model?: string;                  // Model that served the request (unset when every model failed)
+  failed: ExnestFallbackAttempt[]; // Models that failed before it, in order
+}
+
+export interface ExnestFallbackEvent {
+  model: string;      // Model that failed
+  nextModel: string;  // Model tried next
+  error: ExnestError;
+}
+
+export const DEFAULT_FALLBACK_ON: ExnestFallbackReason[] = ["timeout", "server_error", "rate_limit", "model_not_found", "network"];
+
+const SERVER_ERROR_CODES = ["server_error", "internal_error", "service_unavailable", "overloaded", "provider_error", "bad_gateway"];
+
+/**
+ * Thrown in throwing mode when every model of the chain failed with a fallback error
+ */
+export class AllModelsFailedError extends ExnestError {
+  readonly failed: ExnestFallbackAttempt[];
+
+  constructor(failed: ExnestFallbackAttempt[], options: ExnestErrorOptions = {}) {
+    const last = failed[failed.length - 1]?.error;
+    super(`All models failed: ${failed.map(attempt => `${attempt.model} (${attempt.error.message})`).join(", ")}`, {
+      status: last?.status,
+      cause: last,
+      ...options,
+      code: options.code || "all_models_failed",
+      type: options.type || "api_error",
+    });
+    this.failed = failed;
+  }
+}
+
+/**
+ * Failure class of an error, or undefined when it is not a fallback candidate
+ * (authentication, billing, invalid requests, cancellation)
+ */
+export function fallbackReason(error: ExnestError): ExnestFallbackReason | undefined {
+  if (error instanceof TimeoutError) return "timeout";
+  if (error instanceof RateLimitError) return "rate_limit";
+  if (error instanceof ModelNotFoundError) return "model_not_found";
+  if (error instanceof NetworkError) return "network";
+  if (error instanceof StreamError || (error.status !== undefined && error.status >= 500)) return "server_error";
+  if (error.code && SERVER_ERROR_CODES.includes(error.code)) return "server_error";
+  return undefined;
+}
+
+/**
+ * Whether an error matches any of the fallback conditions
+ */
+export function shouldFallback(error: ExnestError, conditions: ExnestFallbackCondition[] = DEFAULT_FALLBACK_ON): boolean {
+  const reason = fallbackReason(error);
+  return conditions.some(condition => (typeof condition === "function" ? condition(error) : condition === reason));
+}
+
+/**
+ * Models to try in order: the requested model, then the chain (duplicates removed)
+ */
+export function fallbackChain(model: string, models: string[] = []): string[] {
+  return [...new Set([model, ...models])];
+}
@@ -0,0 +1,44 @@
+/**
+ * ExnestAI File Access
+ * Node.js file helpers shared by local attachments and the file-backed stores (internal)
+ */
+
+/**
+ * The fs/promises module, imported lazily so the SDK still loads in runtimes without a file system
+ */
+export function loadFs(): Promise<typeof import("fs/promises")> {
+  return import("fs/promises");
+}
+
+/**
+ * Parse a JSON Lines file; a missing file is empty, and a line cut off by an interrupted write is skipped
+ */
+export async function readJsonLines<T>(path: string): Promise<T[]> {
+  const { readFile } = await loadFs();
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error: any) {
+    if (error?.code === "ENOENT") return [];
+    throw error;
+  }
+
+  const values: T[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      values.push(JSON.parse(line));
+    } catch {
+      // Partial line; the value it held is simply missing
+    }
+  }
+  return values;
+}
+
+/**
+ * Append one value as a line of a JSON Lines file
+ */
+export async function appendJsonLine(path: string, value: unknown): Promise<void> {
+  const { appendFile } = await loadFs();
+  await appendFile(path, `${JSON.stringify(value)}\n`, "utf8");
+}
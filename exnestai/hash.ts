@@ -0,0 +1,20 @@
+/**
+ * ExnestAI Hashing
+ * Fast non-cryptographic string hash for cache keys and key ids (internal)
+ */
+
+/**
+ * 64-bit hash from two independently seeded 32-bit FNV-1a variants, as 16 hex characters
+ */
+export function hashString(text: string): string {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193 ^ text.length;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 0x01000193);
+    h2 = Math.imul(h2 ^ code, 0x5bd1e995);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 15), 0x85ebca6b);
+  h2 = Math.imul(h2 ^ (h2 >>> 13), 0xc2b2ae35);
+  return (h1 >>> 0).toString(16).padStart(8, "0") + (h2 >>> 0).toString(16).padStart(8, "0");
+}
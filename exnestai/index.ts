@@ -11,21 +11,240 @@ export { ExnestAI as ExnestClient } from "./client.services";
 export type { 
     ExnestMessage, 
     ExnestResponse, 
-    ExnestStreamChunk 
+    ExnestStreamChunk,
+    ExnestCompletionStreamChunk
 } from "./wrapper.services";
 
 export type { 
     ExnestClientOptions, 
     ExnestChatOptions,
+    ExnestModelRequestOptions,
     ExnestBaseResponse,
     ExnestChatResponse,
     ExnestCompletionResponse,
     ExnestResponse as ExnestClientResponse,
     ExnestErrorResponse,
     ExnestStreamChunk as ExnestClientStreamChunk,
-    ExnestModel
+    ExnestCompletionStreamChunk as ExnestClientCompletionStreamChunk,
+    ExnestModel,
+    ExnestMessage as ExnestClientMessage,
+    ExnestToolDefinition,
+    ExnestToolChoice,
+    ExnestToolCall,
+    ExnestToolCallDelta
 } from "./client.services";
 
+export type {
+    ExnestTool,
+    ExnestToolContext,
+    ExnestToolResult,
+    ExnestRunToolsOptions,
+    ExnestRunToolsResult,
+    ExnestToolStreamEvent
+} from "./tools";
+
+// Token counting
+export { HeuristicTokenCounter, createTokenCounter, applyContextPreflight } from "./tokens";
+
+export type {
+    TokenCounter,
+    ExnestTokenCounterOptions,
+    ExnestPreflightMode,
+    ExnestModelLimits,
+    ExnestPreflightInput,
+    ExnestPreflightResult
+} from "./tokens";
+
+// Cost estimation
+export { CostEstimateUnavailableError, CostLimitExceededError, estimateRequestCost, parsePricingUnit } from "./cost";
+
+export type { ExnestCostEstimate, ExnestCostEstimateOptions } from "./cost";
+
+// Spend tracking
+export { SpendTracker, MemorySpendStore, FileSpendStore, BudgetExceededError } from "./spend";
+
+export type {
+    ExnestSpendRecord,
+    ExnestSpendTotals,
+    ExnestApiKeySpendTotals,
+    ExnestSpendSummary,
+    ExnestSpendBudget,
+    ExnestBudgetPeriod,
+    ExnestBudgetExceededInfo,
+    ExnestSpendStore,
+    ExnestSpendTrackerOptions,
+    ExnestSpendContext
+} from "./spend";
+
+// Model catalog
+export { ModelCatalog, pricePerMillion, matchesFilter } from "./catalog";
+
+export type { ExnestOpenAIModel, ExnestModelFilter, ExnestModelCatalogOptions, ExnestModelFetcher } from "./catalog";
+
+// Model routing
+export { ModelRouter, rankModels, AUTO_MODEL } from "./router";
+
+export type {
+    ExnestRoutingStrategy,
+    ExnestModelCapability,
+    ExnestRouteConstraints,
+    ExnestModelRouterOptions,
+    ExnestRouteSelectOptions
+} from "./router";
+
+// Model fallback
+export { AllModelsFailedError, DEFAULT_FALLBACK_ON, fallbackReason, shouldFallback } from "./fallback";
+
+export type {
+    ExnestFallbackReason,
+    ExnestFallbackCondition,
+    ExnestFallbackAttempt,
+    ExnestFallbackInfo,
+    ExnestFallbackEvent
+} from "./fallback";
+
+// API key pools
+export { ApiKeyPool, apiKeyId, maskApiKey } from "./keys";
+
+export type {
+    ExnestApiKeyConfig,
+    ExnestKeySelectionStrategy,
+    ExnestApiKeyPoolOptions,
+    ExnestApiKeyState,
+    ExnestApiKeyStatus
+} from "./keys";
+
+// Rate limiting
+export { RateLimiter, parseResetDuration } from "./limiter";
+
+export type {
+    ExnestRateLimits,
+    ExnestRateLimiterOptions,
+    ExnestLimiterStats,
+    ExnestRateLimiterStats,
+    ExnestRateLimitPermit
+} from "./limiter";
+
+// Batch execution
+export { FileBatchCheckpoint, runBatch } from "./batch";
+
+export type {
+    ExnestBatchRequest,
+    ExnestBatchChatRequest,
+    ExnestBatchCompletionRequest,
+    ExnestBatchResponse,
+    ExnestBatchItemResult,
+    ExnestBatchUsage,
+    ExnestBatchProgress,
+    ExnestBatchOptions,
+    ExnestBatchResult,
+    ExnestBatchCheckpointEntry,
+    ExnestBatchCheckpointStore
+} from "./batch";
+
+// Response caching
+export { ResponseCache, MemoryCacheStore, FileCacheStore, KeyValueCacheStore, stableStringify } from "./cache";
+
+export type {
+    ExnestCacheInfo,
+    ExnestCacheEntry,
+    ExnestCacheStore,
+    ExnestKeyValueClient,
+    ExnestCacheOptions
+} from "./cache";
+
+// Middleware
+export { runMiddleware } from "./middleware";
+
+export type {
+    ExnestMiddleware,
+    ExnestMiddlewareContext,
+    ExnestMiddlewareResponse,
+    ExnestMiddlewareNext
+} from "./middleware";
+
+// Transport
+export { SDK_VERSION, buildUserAgent } from "./transport";
+
+export type {
+    ExnestFetch,
+    ExnestTransportOptions
+} from "./transport";
+
+// Conversation sessions
+export { Conversation } from "./conversation";
+
+export type { ExnestConversationOptions } from "./conversation";
+
+// Streaming helpers
+export { ChatStreamAccumulator } from "./accumulator";
+export { ExnestChatStream } from "./stream";
+
+export { SSEDecoder, parseSSEEvents, parseSSEJson } from "./sse";
+export { toSSEResponse, pipeToNodeResponse } from "./proxy";
+
+export type { ExnestStreamHandlers } from "./stream";
+export type { ExnestServerSentEvent, ExnestSSEJsonOptions } from "./sse";
+export type { ExnestSSEProxyOptions } from "./proxy";
+
+// Errors
+export {
+    ExnestError,
+    InvalidRequestError,
+    AuthenticationError,
+    InsufficientBalanceError,
+    RateLimitError,
+    ModelNotFoundError,
+    TimeoutError,
+    RequestAbortedError,
+    NetworkError,
+    StreamError,
+    createExnestError
+} from "./errors";
+
+export type { ExnestErrorDetails, ExnestErrorOptions, ExnestTimeoutPhase } from "./errors";
+
+// Retry policy
+export { DEFAULT_RETRY_STATUSES, DEFAULT_RETRY_CODES } from "./retry";
+
+export type { ExnestRetryPolicy, ExnestRetryInfo } from "./retry";
+
+// Structured outputs
+export {
+    ExnestStructuredOutputError,
+    parseStructuredContent,
+    validateJsonSchema
+} from "./structured";
+
+export type {
+    ExnestResponseFormat,
+    ExnestValidator,
+    ExnestStructuredOptions,
+    ExnestStructuredResult
+} from "./structured";
+
+// Multimodal content helpers
+export {
+    textPart,
+    imagePartFromUrl,
+    imagePartFromBase64,
+    imagePartFromBuffer,
+    imagePartFromFile,
+    filePartFromBuffer,
+    filePartFromFile,
+    detectMimeType
+} from "./content";
+
+export type {
+    ExnestContentPart,
+    ExnestTextContentPart,
+    ExnestImageContentPart,
+    ExnestFileContentPart,
+    ExnestMessageContent,
+    ExnestImagePartOptions,
+    ExnestFilePartOptions
+} from "./content";
+
 // Example integrations
 export {
     exampleSimpleWrapper,
@@ -0,0 +1,216 @@
+/**
+ * ExnestAI API Key Pool
+ * Rotates requests over several API keys, quarantining failing keys and tracking rate limits per key
+ */
+
+import { hashString } from "./hash";
+import { AuthenticationError, InsufficientBalanceError, RateLimitError, type ExnestError } from "./errors";
+
+export interface ExnestApiKeyConfig {
+  key: string;
+  weight?: number;  // Relative share of requests with the "weighted" strategy (default: 1)
+  label?: string;   // Shown in the pool status instead of only the masked key
+}
+
+export type ExnestKeySelectionStrategy = "round_robin" | "weighted";
+
+export interface ExnestApiKeyPoolOptions {
+  keys: Array<string | ExnestApiKeyConfig>;
+  strategy?: ExnestKeySelectionStrategy;  // Default: "round_robin"
+  quarantineMs?: number;      // How long a key is skipped after an auth or balance error (default: 300000)
+  rateLimitCooldownMs?: number;  // How long a rate-limited key is skipped without Retry-After (default: 10000)
+}
+
+export type ExnestApiKeyState = "active" | "quarantined" | "rate_limited";
+
+export interface ExnestApiKeyStatus {
+  key: string;               // Masked (****abcd)
+  label?: string;
+  weight: number;
+  state: ExnestApiKeyState;
+  availableAt?: string;      // ISO time a quarantined or rate-limited key is used again
+  lastError?: string;        // Code of the error that quarantined or limited the key
+  requests: number;
+  failures: number;
+}
+
+interface PooledKey {
+  key: string;
+  label?: string;
+  weight: number;
+  currentWeight: number;
+  quarantinedUntil: number;
+  rateLimitedUntil: number;
+  lastError?: string;
+  requests: number;
+  failures: number;
+}
+
+const DEFAULT_QUARANTINE_MS = 5 * 60 * 1000;
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 10000;
+
+/**
+ * Pool of API keys used by the client for each request attempt
+ *
+ * Keys are picked round-robin or by weight (smooth weighted round-robin). A key that gets an
+ * authentication or balance error is quarantined for `quarantineMs`; a rate-limited key is
+ * skipped until its Retry-After passes. When no key is available the one that frees up first is used.
+ */
+export class ApiKeyPool {
+  private readonly keys: PooledKey[];
+  private readonly strategy: ExnestKeySelectionStrategy;
+  private readonly quarantineMs: number;
+  private readonly rateLimitCooldownMs: number;
+  private cursor = 0;
+
+  constructor(options: ExnestApiKeyPoolOptions) {
+    this.keys = options.keys
+      .map(entry => (typeof entry === "string" ? { key: entry } : entry))
+      .filter(entry => entry.key)
+      .map(entry => ({
+        key: entry.key,
+        label: entry.label,
+        weight: entry.weight !== undefined && entry.weight > 0 ? entry.weight : 1,
+        currentWeight: 0,
+        quarantinedUntil: 0,
+        rateLimitedUntil: 0,
+        requests: 0,
+        failures: 0,
+      }));
+    this.strategy = options.strategy || "round_robin";
+    this.quarantineMs = options.quarantineMs ?? DEFAULT_QUARANTINE_MS;
+    this.rateLimitCooldownMs = options.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+  }
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  /**
+   * Number of keys that are neither quarantined nor rate limited
+   */
+  get availableCount(): number {
+    const now = Date.now();
+    return this.keys.filter(entry => isAvailable(entry, now)).length;
+  }
+
+  /**
+   * Pick the key for the next request attempt
+   */
+  acquire(): string {
+    if (this.keys.length === 0) {
+      return "";
+    }
+
+    const now = Date.now();
+    const available = this.keys.filter(entry => isAvailable(entry, now));
+    const entry = available.length
+      ? this.select(available)
+      : this.keys.reduce((soonest, candidate) => (availableAt(candidate) < availableAt(soonest) ? candidate : soonest));
+
+    entry.requests++;
+    return entry.key;
+  }
+
+  /**
+   * Update the state of a key after a failed request; auth and balance errors quarantine it,
+   * rate limits pause it
+   */
+  reportError(key: string, error: ExnestError): void {
+    const entry = this.find(key);
+    if (!entry) {
+      return;
+    }
+
+    entry.failures++;
+    if (error instanceof AuthenticationError || error instanceof InsufficientBalanceError) {
+      entry.quarantinedUntil = Date.now() + this.quarantineMs;
+      entry.lastError = error.code;
+    } else if (error instanceof RateLimitError) {
+      entry.rateLimitedUntil = Date.now() + (error.retryAfterMs ?? this.rateLimitCooldownMs);
+      entry.lastError = error.code;
+    }
+  }
+
+  /**
+   * Clear the quarantine of a key after a successful request
+   */
+  reportSuccess(key: string): void {
+    const entry = this.find(key);
+    if (entry) {
+      entry.quarantinedUntil = 0;
+      entry.lastError = undefined;
+    }
+  }
+
+  /**
+   * Masked state of every key
+   */
+  getStatus(): ExnestApiKeyStatus[] {
+    const now = Date.now();
+    return this.keys.map(entry => {
+      const state: ExnestApiKeyState =
+        entry.quarantinedUntil > now ? "quarantined" : entry.rateLimitedUntil > now ? "rate_limited" : "active";
+      return {
+        key: maskApiKey(entry.key),
+        ...(entry.label ? { label: entry.label } : {}),
+        weight: entry.weight,
+        state,
+        ...(state !== "active" ? { availableAt: new Date(availableAt(entry)).toISOString(), lastError: entry.lastError } : {}),
+        requests: entry.requests,
+        failures: entry.failures,
+      };
+    });
+  }
+
+  private select(available: PooledKey[]): PooledKey {
+    if (this.strategy === "weighted") {
+      // Smooth weighted round-robin: spreads picks evenly instead of in bursts
+      const totalWeight = available.reduce((total, entry) => total + entry.weight, 0);
+      let best = available[0];
+      for (const entry of available) {
+        entry.currentWeight += entry.weight;
+        if (entry.currentWeight > best.currentWeight) {
+          best = entry;
+        }
+      }
+      best.currentWeight -= totalWeight;
+      return best;
+    }
+
+    for (let offset = 0; offset < this.keys.length; offset++) {
+      const entry = this.keys[(this.cursor + offset) % this.keys.length];
+      if (available.includes(entry)) {
+        this.cursor = (this.keys.indexOf(entry) + 1) % this.keys.length;
+        return entry;
+      }
+    }
+    return available[0];
+  }
+
+  private find(key: string): PooledKey | undefined {
+    return this.keys.find(entry => entry.key === key);
+  }
+}
+
+/**
+ * Mask an API key for logs and status output
+ */
+export function maskApiKey(key: string): string {
+  return key ? `****${key.slice(-4)}` : "No API key set";
+}
+
+/**
+ * Stable, non-secret id of an API key, for grouping usage by key (masked keys can collide)
+ */
+export function apiKeyId(key: string): string {
+  return `key_${hashString(key)}`;
+}
+
+function isAvailable(entry: PooledKey, now: number): boolean {
+  return entry.quarantinedUntil <= now && entry.rateLimitedUntil <= now;
+}
+
+function availableAt(entry: PooledKey): number {
+  return Math.max(entry.quarantinedUntil, entry.rateLimitedUntil);
+}
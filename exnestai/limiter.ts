@@ -0,0 +1,336 @@
+/**
+ * ExnestAI Rate Limiter
+ * Client-side request, token and concurrency limits with fair FIFO queuing
+ */
+
+import { RequestAbortedError } from "./errors";
+
+export interface ExnestRateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;   // Prompt estimate plus maxTokens, corrected with the reported usage
+  maxConcurrency?: number;    // Requests (and open streams) in flight
+}
+
+export interface ExnestRateLimiterOptions extends ExnestRateLimits {
+  perModel?: Record<string, ExnestRateLimits>;  // Extra limits for single models, applied on top of the client limits
+  updateFromHeaders?: boolean;  // Adopt x-ratelimit-* response headers as client limits (default: true)
+}
+
+export interface ExnestLimiterStats {
+  limits: ExnestRateLimits;
+  queueDepth: number;       // Calls waiting for a slot
+  active: number;           // Calls holding a slot
+  acquired: number;         // Calls that got a slot so far
+  averageWaitMs: number;
+  maxWaitMs: number;
+  oldestWaitMs: number;     // How long the head of the queue has been waiting
+}
+
+export interface ExnestRateLimiterStats {
+  client: ExnestLimiterStats;
+  models: Record<string, ExnestLimiterStats>;
+}
+
+// Slot held while a request runs; release it once, with the actual token usage when known
+export interface ExnestRateLimitPermit {
+  release(usedTokens?: number): void;
+}
+
+const MINUTE_MS = 60000;
+
+/**
+ * Paces requests to stay within requests per minute, tokens per minute and concurrency limits
+ *
+ * Calls wait in FIFO order, so a large request at the head of the queue is not starved by smaller
+ * ones behind it. Per-model limits are acquired first, then the client limits, so a model at its
+ * limit never holds a client slot.
+ */
+export class RateLimiter {
+  private readonly options: ExnestRateLimiterOptions;
+  private readonly client: LimiterQueue;
+  private readonly models = new Map<string, LimiterQueue>();
+
+  constructor(options: ExnestRateLimiterOptions = {}) {
+    this.options = options;
+    this.client = new LimiterQueue(options);
+    for (const [model, limits] of Object.entries(options.perModel || {})) {
+      this.models.set(model, new LimiterQueue(limits));
+    }
+  }
+
+  /**
+   * Wait for a slot for one request
+   * @param model - Model of the request (selects the per-model limits)
+   * @param tokens - Estimated tokens of the request
+   * @param signal - Stop waiting and reject with RequestAbortedError
+   */
+  async acquire(model: string, tokens = 0, signal?: AbortSignal): Promise<ExnestRateLimitPermit> {
+    const modelQueue = this.models.get(model);
+    if (modelQueue) {
+      await modelQueue.acquire(tokens, signal);
+    }
+    try {
+      await this.client.acquire(tokens, signal);
+    } catch (error) {
+      modelQueue?.release(tokens, 0);
+      throw error;
+    }
+
+    let released = false;
+    return {
+      release: (usedTokens?: number) => {
+        if (released) return;
+        released = true;
+        this.client.release(tokens, usedTokens);
+        modelQueue?.release(tokens, usedTokens);
+      },
+    };
+  }
+
+  /**
+   * Adopt the limits and remaining budget reported by x-ratelimit-* headers
+   */
+  updateFromHeaders(headers: Headers): void {
+    if (this.options.updateFromHeaders === false) {
+      return;
+    }
+
+    for (const kind of ["requests", "tokens"] as const) {
+      const limit = toNumber(headers.get(`x-ratelimit-limit-${kind}`));
+      const remaining = toNumber(headers.get(`x-ratelimit-remaining-${kind}`));
+      const resetMs = parseResetDuration(headers.get(`x-ratelimit-reset-${kind}`));
+      if (limit !== undefined) {
+        this.client.setLimit(kind, limit);
+      }
+      if (remaining !== undefined) {
+        this.client.setRemaining(kind, remaining, resetMs);
+      }
+    }
+  }
+
+  /**
+   * Queue depth, slots in use and wait times for monitoring
+   */
+  getStats(): ExnestRateLimiterStats {
+    const models: Record<string, ExnestLimiterStats> = {};
+    for (const [model, queue] of this.models) {
+      models[model] = queue.stats();
+    }
+    return { client: this.client.stats(), models };
+  }
+}
+
+interface Waiter {
+  tokens: number;
+  enqueuedAt: number;
+  resolve(): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * One set of limits with its FIFO queue
+ */
+class LimiterQueue {
+  private readonly limits: ExnestRateLimits;
+  private requests?: Bucket;
+  private tokens?: Bucket;
+  private active = 0;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private acquired = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+
+  constructor(limits: ExnestRateLimits) {
+    this.limits = { ...limits };
+    this.requests = limits.requestsPerMinute ? new Bucket(limits.requestsPerMinute) : undefined;
+    this.tokens = limits.tokensPerMinute ? new Bucket(limits.tokensPerMinute) : undefined;
+  }
+
+  acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError(undefined, { cause: signal.reason }));
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(waiter);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new RequestAbortedError(undefined, { cause: signal?.reason }));
+          this.drain();
+        }
+      };
+      const waiter: Waiter = {
+        tokens,
+        enqueuedAt: Date.now(),
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject,
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Free the slot and correct the token budget with the actual usage
+   */
+  release(estimatedTokens: number, usedTokens?: number): void {
+    this.active = Math.max(this.active - 1, 0);
+    if (usedTokens !== undefined && this.tokens) {
+      this.tokens.take(usedTokens - estimatedTokens);
+    }
+    this.drain();
+  }
+
+  setLimit(kind: "requests" | "tokens", perMinute: number): void {
+    if (kind === "requests") {
+      this.limits.requestsPerMinute = perMinute;
+      this.requests = this.requests ? this.requests.resize(perMinute) : new Bucket(perMinute);
+    } else {
+      this.limits.tokensPerMinute = perMinute;
+      this.tokens = this.tokens ? this.tokens.resize(perMinute) : new Bucket(perMinute);
+    }
+    this.drain();
+  }
+
+  setRemaining(kind: "requests" | "tokens", remaining: number, resetMs?: number): void {
+    (kind === "requests" ? this.requests : this.tokens)?.setRemaining(remaining, resetMs);
+    this.drain();
+  }
+
+  stats(): ExnestLimiterStats {
+    return {
+      limits: { ...this.limits },
+      queueDepth: this.queue.length,
+      active: this.active,
+      acquired: this.acquired,
+      averageWaitMs: this.acquired ? Math.round(this.totalWaitMs / this.acquired) : 0,
+      maxWaitMs: this.maxWaitMs,
+      oldestWaitMs: this.queue.length ? Date.now() - this.queue[0].enqueuedAt : 0,
+    };
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    while (this.queue.length) {
+      const head = this.queue[0];
+      const wait = this.waitTime(head.tokens);
+      if (wait > 0) {
+        // Blocked on concurrency: release() drains again
+        if (Number.isFinite(wait)) {
+          this.timer = setTimeout(() => this.drain(), wait);
+        }
+        return;
+      }
+
+      this.queue.shift();
+      this.requests?.take(1);
+      this.tokens?.take(head.tokens);
+      this.active++;
+
+      const waited = Date.now() - head.enqueuedAt;
+      this.acquired++;
+      this.totalWaitMs += waited;
+      this.maxWaitMs = Math.max(this.maxWaitMs, waited);
+      head.resolve();
+    }
+  }
+
+  private waitTime(tokens: number): number {
+    if (this.limits.maxConcurrency && this.active >= this.limits.maxConcurrency) {
+      return Number.POSITIVE_INFINITY;
+    }
+    return Math.max(this.requests?.waitFor(1) ?? 0, this.tokens?.waitFor(tokens) ?? 0);
+  }
+}
+
+/**
+ * Token bucket refilled continuously at capacity per minute
+ */
+class Bucket {
+  private capacity: number;
+  private level: number;
+  private updatedAt = Date.now();
+  private blockedUntil = 0;
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.level = perMinute;
+  }
+
+  waitFor(amount: number): number {
+    this.refill();
+    const now = Date.now();
+    if (this.blockedUntil > now) {
+      return this.blockedUntil - now;
+    }
+    // A request larger than the whole budget runs once the bucket is full
+    const needed = Math.min(amount, this.capacity);
+    if (this.level >= needed) {
+      return 0;
+    }
+    return Math.ceil(((needed - this.level) * MINUTE_MS) / this.capacity);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.level -= Math.min(amount, this.capacity);
+  }
+
+  resize(perMinute: number): this {
+    this.refill();
+    this.level = Math.min(this.level + (perMinute - this.capacity), perMinute);
+    this.capacity = perMinute;
+    return this;
+  }
+
+  setRemaining(remaining: number, resetMs?: number): void {
+    this.refill();
+    this.level = Math.min(this.level, remaining);
+    if (remaining <= 0 && resetMs) {
+      this.blockedUntil = Date.now() + resetMs;
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.level = Math.min(this.capacity, this.level + ((now - this.updatedAt) * this.capacity) / MINUTE_MS);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Parse reset durations such as "1s", "6m0s", "250ms" or plain seconds into milliseconds
+ */
+export function parseResetDuration(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/([\d.]+)(ms|h|m|s)/g)) {
+    matched = true;
+    total += Number(amount) * { ms: 1, s: 1000, m: MINUTE_MS, h: 60 * MINUTE_MS }[unit as "ms" | "s" | "m" | "h"];
+  }
+  return matched ? total : undefined;
+}
+
+function toNumber(value: string | null): number | undefined {
+  if (value === null || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
@@ -0,0 +1,96 @@
+/**
+ * ExnestAI Middleware
+ * Ordered request/response hooks around every HTTP call of the client
+ */
+
+export interface ExnestMiddlewareContext {
+  endpoint: string;                 // API path, e.g. "/chat/completions" or "/models/gpt-4.1-mini"
+  method: "GET" | "POST";
+  body?: Record<string, any>;       // Request body (POST only); mutate or replace it before calling next()
+  headers: Record<string, string>;  // Request headers, including Authorization
+  stream: boolean;                  // Streaming call: the response carries chunks instead of a body
+  attempt: number;                  // 1 for the first attempt, higher for retries
+  state: Record<string, unknown>;   // Scratch space shared by the middleware of one call
+}
+
+export interface ExnestMiddlewareResponse {
+  status?: number;    // HTTP status (default: 200)
+  headers?: Headers;  // Response headers (default: empty)
+  body?: any;         // Parsed JSON body (non-streaming calls, and failed streaming calls)
+  chunks?: AsyncIterable<any> | Iterable<any>;  // Parsed stream chunks (streaming calls)
+}
+
+export type ExnestMiddlewareNext = () => Promise<ExnestMiddlewareResponse>;
+
+/**
+ * Runs around one HTTP call. Call next() to continue down the chain (the last step sends the
+ * request), or return a response without calling it to short-circuit the call. Errors it throws
+ * reach the caller as they are: they are not retried and do not trigger model fallback.
+ * Response cache hits are served without the chat or completion call, so middleware does not see them.
+ */
+export type ExnestMiddleware = (
+  context: ExnestMiddlewareContext,
+  next: ExnestMiddlewareNext
+) => Promise<ExnestMiddlewareResponse>;
+
+// Errors thrown by middleware itself (not by the request); the client passes them on unchanged
+const middlewareErrors = new WeakSet<object>();
+
+/**
+ * Run the middleware chain in order, ending with the handler that performs the request
+ *
+ * Without middleware the handler is called directly, so the request still starts synchronously.
+ * Errors raised by middleware, rather than passed up from the handler, are marked so the client
+ * does not retry them or treat them as network failures.
+ */
+export async function runMiddleware(
+  middleware: ExnestMiddleware[],
+  context: ExnestMiddlewareContext,
+  handler: (context: ExnestMiddlewareContext) => Promise<ExnestMiddlewareResponse>
+): Promise<ExnestMiddlewareResponse & { status: number; headers: Headers }> {
+  let handlerFailure: { error: unknown } | undefined;
+
+  const dispatch = (index: number): Promise<ExnestMiddlewareResponse> => {
+    if (index === middleware.length) {
+      return handler(context).catch(error => {
+        handlerFailure = { error };
+        throw error;
+      });
+    }
+    let called = false;
+    return middleware[index](context, () => {
+      if (called) {
+        return Promise.reject(new Error("next() called multiple times"));
+      }
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  let response: ExnestMiddlewareResponse;
+  try {
+    response = await dispatch(0);
+  } catch (error) {
+    if (handlerFailure?.error !== error) {
+      markMiddlewareError(error);
+    }
+    throw error;
+  }
+  return { ...response, status: response.status ?? 200, headers: response.headers ?? new Headers() };
+}
+
+/**
+ * Mark an error as raised by middleware (e.g. while wrapping stream chunks)
+ */
+export function markMiddlewareError(error: unknown): void {
+  if (typeof error === "object" && error !== null) {
+    middlewareErrors.add(error);
+  }
+}
+
+/**
+ * Whether an error was raised by middleware rather than by the request
+ */
+export function isMiddlewareError(error: unknown): boolean {
+  return typeof error === "object" && error !== null && middlewareErrors.has(error);
+}
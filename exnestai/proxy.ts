@@ -0,0 +1,171 @@
+/**
+ * ExnestAI Streaming Proxy
+ * Relays SDK streams to your own clients as OpenAI-compatible server-sent events
+ */
+
+import type { ServerResponse } from "http";
+import { ExnestError, toExnestError } from "./errors";
+
+export interface ExnestSSEProxyOptions {
+  status?: number;                            // HTTP status of the event stream (default: 200)
+  headers?: Record<string, string>;           // Extra or overriding response headers
+  abortController?: AbortController;          // Aborted when the client disconnects; pass its signal to the stream call
+  onError?: (error: ExnestError) => void;     // Called before the error event is sent to the client
+}
+
+const SSE_HEADERS: Record<string, string> = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  "Connection": "keep-alive",
+  "X-Accel-Buffering": "no",  // Disable proxy buffering (nginx)
+};
+
+const DONE_EVENT = "data: [DONE]\n\n";
+
+/**
+ * Relay a stream as a Fetch Response (Next.js route handlers, Hono, Bun, Deno, Workers)
+ *
+ * Each chunk is sent as a `data:` event followed by `data: [DONE]`. A failure is sent as a
+ * `data: {"error": {...}}` event. When the client disconnects the upstream stream is closed.
+ * @param stream - Stream returned by stream(), streamCompletion() or any async iterable of chunks
+ * @param options - Status, headers, abort controller and error callback
+ * @returns Response
+ */
+export function toSSEResponse<T>(stream: AsyncIterable<T>, options: ExnestSSEProxyOptions = {}): Response {
+  const iterator = stream[Symbol.asyncIterator]();
+  const encoder = new TextEncoder();
+  let finished = false;
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await iterator.next();
+        if (cancelled) return;
+        if (done) {
+          finished = true;
+          controller.enqueue(encoder.encode(DONE_EVENT));
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatDataEvent(value)));
+      } catch (error) {
+        finished = true;
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(formatErrorEvent(error, options)));
+        controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      options.abortController?.abort();
+      if (!finished) {
+        closeUpstream(iterator);
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: options.status ?? 200,
+    headers: { ...SSE_HEADERS, ...options.headers },
+  });
+}
+
+/**
+ * Relay a stream to a Node.js http.ServerResponse (also Express, Fastify raw replies, etc.)
+ *
+ * Headers are flushed immediately and every event is flushed as it is written, including
+ * through compression middleware. When the client disconnects the upstream stream is closed.
+ * @param stream - Stream returned by stream(), streamCompletion() or any async iterable of chunks
+ * @param res - Node.js server response
+ * @param options - Status, headers, abort controller and error callback
+ * @returns Promise that resolves once the response has ended or the client has gone
+ */
+export async function pipeToNodeResponse<T>(
+  stream: AsyncIterable<T>,
+  res: ServerResponse,
+  options: ExnestSSEProxyOptions = {}
+): Promise<void> {
+  const iterator = stream[Symbol.asyncIterator]();
+  let disconnected = false;
+
+  const onClose = () => {
+    if (res.writableFinished) return;
+    disconnected = true;
+    options.abortController?.abort();
+    closeUpstream(iterator);
+  };
+  res.on("close", onClose);
+
+  if (!res.headersSent) {
+    res.statusCode = options.status ?? 200;
+    for (const [name, value] of Object.entries({ ...SSE_HEADERS, ...options.headers })) {
+      res.setHeader(name, value);
+    }
+    res.flushHeaders();
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (disconnected) return;
+      if (done) {
+        await writeEvent(res, DONE_EVENT);
+        return;
+      }
+      await writeEvent(res, formatDataEvent(value));
+    }
+  } catch (error) {
+    if (!disconnected) {
+      await writeEvent(res, formatErrorEvent(error, options));
+    }
+  } finally {
+    res.off("close", onClose);
+    if (!disconnected && !res.writableEnded) {
+      res.end();
+    }
+  }
+}
+
+function formatDataEvent(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+function formatErrorEvent(error: unknown, options: ExnestSSEProxyOptions): string {
+  const exnestError = toExnestError(error);
+  options.onError?.(exnestError);
+  return formatDataEvent(exnestError.toErrorResponse());
+}
+
+/**
+ * Close the upstream stream without waiting, since a pending read may only settle once aborted
+ */
+function closeUpstream<T>(iterator: AsyncIterator<T>): void {
+  Promise.resolve(iterator.return?.()).catch(() => {});
+}
+
+/**
+ * Write one event, flush it and wait for the socket to drain when it is backed up
+ */
+function writeEvent(res: ServerResponse, event: string): Promise<void> {
+  if (res.destroyed || res.writableEnded) {
+    return Promise.resolve();
+  }
+
+  const flushed = res.write(event);
+  // Set by compression middleware, which otherwise buffers the event
+  (res as ServerResponse & { flush?: () => void }).flush?.();
+  if (flushed) {
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => {
+    const resume = () => {
+      res.off("drain", resume);
+      res.off("close", resume);
+      resolve();
+    };
+    res.on("drain", resume);
+    res.on("close", resume);
+  });
+}
@@ -0,0 +1,92 @@
+/**
+ * ExnestAI Retry Policy
+ * Status-aware retry decisions with Retry-After support and jittered exponential backoff
+ */
+
+import type { ExnestError } from "./errors";
+
+export interface ExnestRetryInfo {
+  attempt: number;      // Attempt that just failed (1-based)
+  maxRetries: number;
+  delayMs: number;      // Delay before the next attempt
+  endpoint: string;
+  status?: number;      // HTTP status, when a response was received
+  code?: string;        // Error code from the response body or the network error
+  error?: ExnestError;  // Set for network failures and timeouts
+  retryAfterMs?: number;
+}
+
+export interface ExnestRetryPolicy {
+  retryOnStatus?: number[];      // HTTP statuses to retry (default: 408, 429, 500, 502, 503, 504)
+  retryOnCodes?: string[];       // Error body codes to retry regardless of status
+  retryOnNetworkError?: boolean; // Retry when fetch fails or times out (default: true)
+  baseDelay?: number;            // Initial backoff in ms (default: client retryDelay)
+  maxDelay?: number;             // Cap for any single delay in ms, including Retry-After (default: 30000)
+  jitter?: boolean;              // Full jitter: random delay between 0 and the backoff (default: true)
+  respectRetryAfter?: boolean;   // Wait for the Retry-After header when present (default: true)
+  onRetry?: (info: ExnestRetryInfo) => void;
+}
+
+export const DEFAULT_RETRY_STATUSES = [408, 429, 500, 502, 503, 504];
+export const DEFAULT_RETRY_CODES = ["rate_limit_exceeded", "timeout", "server_error", "service_unavailable", "overloaded"];
+const DEFAULT_MAX_DELAY = 30000;
+
+/**
+ * Decide whether a received response should be retried
+ */
+export function isRetryableResponse(policy: ExnestRetryPolicy, status: number, body: any): boolean {
+  const statuses = policy.retryOnStatus || DEFAULT_RETRY_STATUSES;
+  if (statuses.includes(status)) {
+    return true;
+  }
+
+  const code = body?.error?.code;
+  const codes = policy.retryOnCodes || DEFAULT_RETRY_CODES;
+  return typeof code === "string" && codes.includes(code);
+}
+
+/**
+ * Compute the delay before the next attempt
+ * @param attempt - Zero-based index of the attempt that just failed
+ * @param fallbackBaseDelay - Base delay used when the policy does not set one
+ * @param retryAfterMs - Server-requested delay from the Retry-After header
+ */
+export function computeRetryDelay(
+  policy: ExnestRetryPolicy,
+  attempt: number,
+  fallbackBaseDelay: number,
+  retryAfterMs?: number
+): number {
+  const maxDelay = policy.maxDelay ?? DEFAULT_MAX_DELAY;
+
+  if (retryAfterMs !== undefined && policy.respectRetryAfter !== false) {
+    return Math.min(retryAfterMs, maxDelay);
+  }
+
+  const baseDelay = policy.baseDelay ?? fallbackBaseDelay;
+  const backoff = Math.min(maxDelay, baseDelay * 2 ** attempt);
+
+  return policy.jitter === false ? backoff : Math.floor(Math.random() * backoff);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ * @returns Milliseconds to wait, or undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
@@ -0,0 +1,133 @@
+/**
+ * ExnestAI Model Router
+ * Picks a model from the catalog by constraints and strategy (used for model "auto")
+ */
+
+import type { ExnestModel } from "./client.services";
+import { matchesFilter, pricePerMillion, type ExnestModelFilter, type ModelCatalog } from "./catalog";
+import { ModelNotFoundError } from "./errors";
+
+// Model id that asks the client to route the request
+export const AUTO_MODEL = "auto";
+
+export type ExnestRoutingStrategy = "cheapest" | "largest_context" | "preferred";
+
+export type ExnestModelCapability = "streaming" | "tools" | "vision" | "json";
+
+export interface ExnestRouteConstraints {
+  providers?: string[];          // Only these providers (id or name)
+  excludeProviders?: string[];   // Never these providers (id or name)
+  excludeModels?: string[];      // Never these model names
+  maxInputPrice?: number;        // Per 1M tokens, in the pricing currency
+  maxOutputPrice?: number;       // Per 1M tokens, in the pricing currency
+  minContextWindow?: number;
+  minMaxTokens?: number;
+  capabilities?: ExnestModelCapability[];  // Required capabilities; models that do not report them are assumed capable
+  includeInactive?: boolean;     // Also consider models with isActive: false (default: false)
+}
+
+export interface ExnestModelRouterOptions extends ExnestRouteConstraints {
+  strategy?: ExnestRoutingStrategy;  // Default: "cheapest"
+  preferred?: string[];              // Model names in order of preference ("preferred" strategy)
+}
+
+export interface ExnestRouteSelectOptions {
+  signal?: AbortSignal;  // Cancel the catalog lookup
+  refresh?: boolean;     // Bypass the catalog cache
+}
+
+/**
+ * Selects a model from the model catalog
+ *
+ * Candidates must be active and satisfy every constraint. "cheapest" ranks by input plus
+ * output price per 1M tokens, "largest_context" by context window, and "preferred" by the
+ * order of `preferred` (other matching models follow, cheapest first).
+ */
+export class ModelRouter {
+  private readonly catalog: ModelCatalog;
+  private readonly options: ExnestModelRouterOptions;
+
+  constructor(catalog: ModelCatalog, options: ExnestModelRouterOptions = {}) {
+    this.catalog = catalog;
+    this.options = options;
+  }
+
+  /**
+   * Best matching model
+   * @param overrides - Constraints and strategy for this selection, merged over the router options
+   * @param options - Catalog lookup options
+   * @throws ModelNotFoundError when no model satisfies the constraints
+   */
+  async select(overrides: ExnestModelRouterOptions = {}, options: ExnestRouteSelectOptions = {}): Promise<ExnestModel> {
+    const [model] = await this.rank(overrides, options);
+    if (!model) {
+      throw new ModelNotFoundError("No model matches the routing constraints", { code: "no_model_available" });
+    }
+    return model;
+  }
+
+  /**
+   * All matching models, best first
+   */
+  async rank(overrides: ExnestModelRouterOptions = {}, options: ExnestRouteSelectOptions = {}): Promise<ExnestModel[]> {
+    const models = await this.catalog.list(options);
+    return rankModels(models, { ...this.options, ...withoutUndefined(overrides) });
+  }
+}
+
+/**
+ * Filter and order models by the routing constraints and strategy
+ */
+export function rankModels(models: ExnestModel[], options: ExnestModelRouterOptions = {}): ExnestModel[] {
+  const candidates = models.filter(model => satisfiesConstraints(model, options));
+  const totalPrice = (model: ExnestModel) => pricePerMillion(model, "input") + pricePerMillion(model, "output");
+  const contextWindow = (model: ExnestModel) => model.limits?.contextWindow || 0;
+  const byPrice = (a: ExnestModel, b: ExnestModel) =>
+    compareNumbers(totalPrice(a), totalPrice(b)) || contextWindow(b) - contextWindow(a);
+
+  switch (options.strategy || "cheapest") {
+    case "largest_context":
+      return candidates.sort((a, b) => contextWindow(b) - contextWindow(a) || byPrice(a, b));
+    case "preferred": {
+      const preferred = options.preferred || [];
+      const rankOf = (model: ExnestModel) => {
+        const index = preferred.indexOf(model.name);
+        return index === -1 ? preferred.length : index;
+      };
+      return candidates.sort((a, b) => rankOf(a) - rankOf(b) || byPrice(a, b));
+    }
+    default:
+      return candidates.sort(byPrice);
+  }
+}
+
+function satisfiesConstraints(model: ExnestModel, constraints: ExnestRouteConstraints): boolean {
+  if (!constraints.includeInactive && model.isActive === false) {
+    return false;
+  }
+  if (constraints.excludeModels?.includes(model.name)) {
+    return false;
+  }
+  const filter: ExnestModelFilter = {
+    provider: constraints.providers?.length ? constraints.providers : undefined,
+    excludeProvider: constraints.excludeProviders?.length ? constraints.excludeProviders : undefined,
+    maxInputPrice: constraints.maxInputPrice,
+    maxOutputPrice: constraints.maxOutputPrice,
+    minContextWindow: constraints.minContextWindow,
+    minMaxTokens: constraints.minMaxTokens,
+  };
+  if (!matchesFilter(model, filter)) {
+    return false;
+  }
+  return (constraints.capabilities || []).every(capability => model.capabilities?.[capability] !== false);
+}
+
+// Unpriced models (Infinity) sort last
+function compareNumbers(a: number, b: number): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
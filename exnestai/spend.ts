@@ -0,0 +1,335 @@
+/**
+ * ExnestAI Spend Tracking
+ * Aggregates billed cost and token usage and enforces spending budgets
+ */
+
+import type { ExnestBaseResponse } from "./client.services";
+import { ExnestError, type ExnestErrorOptions } from "./errors";
+import { appendJsonLine, loadFs, readJsonLines } from "./files";
+
+export interface ExnestSpendRecord {
+  timestamp: string;           // ISO time the response was received
+  model: string;
+  apiKey: string;              // Masked API key (****abcd), for display
+  apiKeyId?: string;           // Stable id of the key (apiKeyId()); records written before it existed lack it
+  tags: string[];
+  costUsd: number;             // billing.actual_cost_usd (0 when the response carried no billing metadata)
+  deductedAmount?: number;     // billing.deducted_amount, in walletCurrency
+  walletCurrency?: string;
+  transactionId?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  streamed: boolean;
+}
+
+export interface ExnestSpendTotals {
+  requests: number;
+  costUsd: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ExnestApiKeySpendTotals extends ExnestSpendTotals {
+  apiKey: string;  // Masked API key, for display
+}
+
+export interface ExnestSpendSummary extends ExnestSpendTotals {
+  byModel: Record<string, ExnestSpendTotals>;
+  byApiKey: Record<string, ExnestApiKeySpendTotals>;  // By apiKeyId (the masked key for older records)
+  byTag: Record<string, ExnestSpendTotals>;
+}
+
+export type ExnestBudgetPeriod = "daily" | "total";
+
+export interface ExnestSpendBudget {
+  daily?: number;  // USD per UTC day
+  total?: number;  // USD over all recorded spend
+}
+
+export interface ExnestBudgetExceededInfo {
+  period: ExnestBudgetPeriod;
+  limit: number;
+  spent: number;
+  record: ExnestSpendRecord;  // The record that pushed spend over the budget
+}
+
+/**
+ * Persistence backend for spend records (files, databases, Redis, etc.)
+ */
+export interface ExnestSpendStore {
+  load(): Promise<ExnestSpendRecord[]>;
+  append(record: ExnestSpendRecord): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export interface ExnestSpendTrackerOptions {
+  budget?: ExnestSpendBudget;
+  enforce?: "refuse" | "notify";  // Refuse new requests once a budget is spent, or only notify (default: "refuse")
+  onBudgetExceeded?: (info: ExnestBudgetExceededInfo) => void | Promise<void>;
+  store?: ExnestSpendStore;       // Default: in-memory only
+}
+
+// Request details the client passes along with a response
+export interface ExnestSpendContext {
+  model: string;
+  apiKey: string;     // Masked API key
+  apiKeyId?: string;
+  tags?: string[];
+  streamed?: boolean;
+}
+
+/**
+ * Thrown before sending when a budget is already spent and enforce is "refuse"
+ */
+export class BudgetExceededError extends ExnestError {
+  readonly period: ExnestBudgetPeriod;
+  readonly limit: number;
+  readonly spent: number;
+
+  constructor(period: ExnestBudgetPeriod, limit: number, spent: number, options: ExnestErrorOptions = {}) {
+    super(`${period === "daily" ? "Daily" : "Total"} budget of $${limit} exceeded (spent $${spent.toFixed(6)})`, {
+      ...options,
+      code: options.code || "budget_exceeded",
+      type: options.type || "billing_error",
+    });
+    this.period = period;
+    this.limit = limit;
+    this.spent = spent;
+  }
+}
+
+/**
+ * Keeps spend records in memory
+ */
+export class MemorySpendStore implements ExnestSpendStore {
+  private records: ExnestSpendRecord[] = [];
+
+  async load(): Promise<ExnestSpendRecord[]> {
+    return [...this.records];
+  }
+
+  async append(record: ExnestSpendRecord): Promise<void> {
+    this.records.push(record);
+  }
+
+  async clear(): Promise<void> {
+    this.records = [];
+  }
+}
+
+/**
+ * Appends spend records to a JSON Lines file (Node.js only)
+ */
+export class FileSpendStore implements ExnestSpendStore {
+  private readonly path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<ExnestSpendRecord[]> {
+    return readJsonLines<ExnestSpendRecord>(this.path);
+  }
+
+  async append(record: ExnestSpendRecord): Promise<void> {
+    await appendJsonLine(this.path, record);
+  }
+
+  async clear(): Promise<void> {
+    const { writeFile } = await loadFs();
+    await writeFile(this.path, "", "utf8");
+  }
+}
+
+/**
+ * Records billed cost and token usage per model, API key and tag.
+ * Attach it with the `spendTracker` client option; requests then ask for Exnest billing metadata.
+ */
+export class SpendTracker {
+  private readonly options: ExnestSpendTrackerOptions;
+  private readonly store: ExnestSpendStore;
+  private total = emptySummary();
+  private days = new Map<string, ExnestSpendSummary>();
+  private loaded?: Promise<void>;
+
+  constructor(options: ExnestSpendTrackerOptions = {}) {
+    this.options = options;
+    this.store = options.store || new MemorySpendStore();
+  }
+
+  /**
+   * Whether a daily or total budget is configured
+   */
+  get hasBudget(): boolean {
+    return this.options.budget?.daily !== undefined || this.options.budget?.total !== undefined;
+  }
+
+  /**
+   * Record the billing and usage of a successful response (error responses and cache hits are ignored)
+   * @returns The stored record, or undefined when nothing was recorded
+   */
+  async recordResponse(
+    response: Pick<ExnestBaseResponse, "usage" | "exnest" | "error" | "cache">,
+    context: ExnestSpendContext
+  ): Promise<ExnestSpendRecord | undefined> {
+    // Cache hits carry the billing of the original request, which was already recorded
+    if (response.error || response.cache?.hit || (!response.usage && !response.exnest?.billing)) {
+      return undefined;
+    }
+
+    const billing = response.exnest?.billing;
+    return this.record({
+      timestamp: new Date().toISOString(),
+      model: context.model,
+      apiKey: context.apiKey,
+      ...(context.apiKeyId ? { apiKeyId: context.apiKeyId } : {}),
+      tags: context.tags || [],
+      costUsd: toNumber(billing?.actual_cost_usd) ?? 0,
+      deductedAmount: toNumber(billing?.deducted_amount),
+      walletCurrency: billing?.wallet_currency,
+      transactionId: billing?.transaction_id,
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: response.usage?.completion_tokens || 0,
+      totalTokens: response.usage?.total_tokens || 0,
+      streamed: context.streamed === true,
+    });
+  }
+
+  /**
+   * Add a record, persist it and fire onBudgetExceeded when it crosses a budget
+   */
+  async record(record: ExnestSpendRecord): Promise<ExnestSpendRecord> {
+    await this.ensureLoaded();
+
+    const spentBefore = this.spent();
+    this.apply(record);
+    await this.store.append(record);
+
+    const spentAfter = this.spent();
+    for (const period of ["daily", "total"] as const) {
+      const limit = this.options.budget?.[period];
+      if (limit !== undefined && spentBefore[period] < limit && spentAfter[period] >= limit) {
+        await this.options.onBudgetExceeded?.({ period, limit, spent: spentAfter[period], record });
+      }
+    }
+
+    return record;
+  }
+
+  /**
+   * Throw a BudgetExceededError when a budget is spent and enforce is "refuse"
+   */
+  async checkBudget(): Promise<void> {
+    await this.ensureLoaded();
+    if (this.options.enforce === "notify") {
+      return;
+    }
+
+    const spent = this.spent();
+    for (const period of ["daily", "total"] as const) {
+      const limit = this.options.budget?.[period];
+      if (limit !== undefined && spent[period] >= limit) {
+        throw new BudgetExceededError(period, limit, spent[period]);
+      }
+    }
+  }
+
+  /**
+   * Aggregated spend over all records, or for one UTC day
+   * @param day - Date within the day to summarize
+   */
+  async getSummary(day?: Date): Promise<ExnestSpendSummary> {
+    await this.ensureLoaded();
+    const summary = day ? this.days.get(dayKey(day)) || emptySummary() : this.total;
+    return cloneSummary(summary);
+  }
+
+  /**
+   * Remove all records from memory and from the store
+   */
+  async reset(): Promise<void> {
+    await this.ensureLoaded();
+    await this.store.clear?.();
+    this.total = emptySummary();
+    this.days.clear();
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.store.load().then(
+        records => records.forEach(record => this.apply(record)),
+        error => {
+          this.loaded = undefined;
+          throw error;
+        }
+      );
+    }
+    return this.loaded;
+  }
+
+  private spent(): Record<ExnestBudgetPeriod, number> {
+    return {
+      daily: this.days.get(dayKey(new Date()))?.costUsd || 0,
+      total: this.total.costUsd,
+    };
+  }
+
+  private apply(record: ExnestSpendRecord): void {
+    const key = dayKey(new Date(record.timestamp));
+    let day = this.days.get(key);
+    if (!day) {
+      day = emptySummary();
+      this.days.set(key, day);
+    }
+    addToSummary(this.total, record);
+    addToSummary(day, record);
+  }
+}
+
+function emptyTotals(): ExnestSpendTotals {
+  return { requests: 0, costUsd: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+}
+
+function emptySummary(): ExnestSpendSummary {
+  return { ...emptyTotals(), byModel: {}, byApiKey: {}, byTag: {} };
+}
+
+function addToTotals(totals: ExnestSpendTotals, record: ExnestSpendRecord): void {
+  totals.requests++;
+  totals.costUsd += record.costUsd;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  totals.totalTokens += record.totalTokens;
+}
+
+function addToSummary(summary: ExnestSpendSummary, record: ExnestSpendRecord): void {
+  addToTotals(summary, record);
+  addToTotals((summary.byModel[record.model] ||= emptyTotals()), record);
+  addToTotals((summary.byApiKey[record.apiKeyId ?? record.apiKey] ||= { ...emptyTotals(), apiKey: record.apiKey }), record);
+  for (const tag of record.tags) {
+    addToTotals((summary.byTag[tag] ||= emptyTotals()), record);
+  }
+}
+
+function cloneSummary(summary: ExnestSpendSummary): ExnestSpendSummary {
+  const cloneGroup = <T extends ExnestSpendTotals>(group: Record<string, T>): Record<string, T> =>
+    Object.fromEntries(Object.entries(group).map(([key, totals]) => [key, { ...totals }]));
+  return {
+    ...summary,
+    byModel: cloneGroup(summary.byModel),
+    byApiKey: cloneGroup(summary.byApiKey),
+    byTag: cloneGroup(summary.byTag),
+  };
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toNumber(value: string | number | undefined | null): number | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+}
@@ -0,0 +1,212 @@
+/**
+ * ExnestAI Server-Sent Events
+ * Spec-compliant SSE decoder shared by the wrapper and the advanced client
+ */
+
+import { ExnestError, StreamError, createExnestError } from "./errors";
+
+export interface ExnestServerSentEvent {
+  event: string;  // "message" unless the server sent an event: field
+  data: string;   // Data lines joined with "\n"
+  id?: string;
+  retry?: number;
+}
+
+export interface ExnestSSEJsonOptions {
+  onParseError?: (error: unknown, data: string) => void;  // Called for data that is not valid JSON (skipped)
+}
+
+/**
+ * Incremental decoder for the text/event-stream format
+ * (https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation)
+ *
+ * Handles \n, \r\n and \r line endings split across chunks, multi-line data fields,
+ * event/id/retry fields, comment lines and fields with or without a space after the colon.
+ */
+export class SSEDecoder {
+  private buffer = "";
+  private data: string[] = [];
+  private eventType = "";
+  private lastEventId?: string;
+  private retry?: number;
+
+  /**
+   * Feed decoded text and return the events completed by it
+   */
+  decode(text: string): ExnestServerSentEvent[] {
+    this.buffer += text;
+    const events: ExnestServerSentEvent[] = [];
+
+    while (true) {
+      const match = /\r\n|\r|\n/.exec(this.buffer);
+      if (!match) break;
+
+      // A trailing \r may be the first half of \r\n split across chunks
+      if (match[0] === "\r" && match.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(0, match.index);
+      this.buffer = this.buffer.slice(match.index + match[0].length);
+
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    return events;
+  }
+
+  /**
+   * Finish decoding at end of stream.
+   * Unlike browsers, a final event without a trailing blank line is still dispatched.
+   */
+  flush(): ExnestServerSentEvent[] {
+    const events: ExnestServerSentEvent[] = [];
+
+    if (this.buffer) {
+      const line = this.buffer.endsWith("\r") ? this.buffer.slice(0, -1) : this.buffer;
+      this.buffer = "";
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    const event = this.dispatch();
+    if (event) events.push(event);
+
+    return events;
+  }
+
+  private processLine(line: string): ExnestServerSentEvent | null {
+    if (line === "") {
+      return this.dispatch();
+    }
+
+    // Comment line, typically used as a heartbeat
+    if (line.startsWith(":")) {
+      return null;
+    }
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case "data":
+        this.data.push(value);
+        break;
+      case "event":
+        this.eventType = value;
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+
+    return null;
+  }
+
+  private dispatch(): ExnestServerSentEvent | null {
+    if (this.data.length === 0) {
+      this.eventType = "";
+      return null;
+    }
+
+    const event: ExnestServerSentEvent = {
+      event: this.eventType || "message",
+      data: this.data.join("\n"),
+    };
+    if (this.lastEventId !== undefined) event.id = this.lastEventId;
+    if (this.retry !== undefined) event.retry = this.retry;
+
+    this.data = [];
+    this.eventType = "";
+    return event;
+  }
+}
+
+/**
+ * Decode a byte stream into server-sent events
+ */
+export async function* parseSSEEvents(
+  source: AsyncIterable<Uint8Array>
+): AsyncGenerator<ExnestServerSentEvent, void, unknown> {
+  const textDecoder = new TextDecoder();
+  const decoder = new SSEDecoder();
+
+  for await (const bytes of source) {
+    yield* decoder.decode(textDecoder.decode(bytes, { stream: true }));
+  }
+
+  yield* decoder.decode(textDecoder.decode());
+  yield* decoder.flush();
+}
+
+/**
+ * Decode a byte stream of JSON server-sent events, as sent by the completion endpoints
+ *
+ * Stops at the "[DONE]" sentinel and throws for `event: error` events or
+ * data payloads carrying an OpenAI-compatible `error` object.
+ */
+export async function* parseSSEJson<T>(
+  source: AsyncIterable<Uint8Array>,
+  options: ExnestSSEJsonOptions = {}
+): AsyncGenerator<T, void, unknown> {
+  for await (const event of parseSSEEvents(source)) {
+    if (event.data === "[DONE]") {
+      return;
+    }
+
+    let payload: any;
+    try {
+      payload = JSON.parse(event.data);
+    } catch (parseError) {
+      if (event.event === "error") {
+        throw new StreamError(event.data || "Stream error event received");
+      }
+      options.onParseError?.(parseError, event.data);
+      continue;
+    }
+
+    if (event.event === "error" || (payload?.error && !payload?.choices)) {
+      throw toStreamEventError(payload);
+    }
+
+    yield payload as T;
+  }
+}
+
+/**
+ * Iterate the bytes of a response body, cancelling it when the consumer stops early
+ */
+export async function* readBodyChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array, void, unknown> {
+  const reader = body.getReader();
+  let completed = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        completed = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    if (!completed) {
+      await reader.cancel().catch(() => {});
+    }
+    reader.releaseLock();
+  }
+}
+
+function toStreamEventError(payload: any): ExnestError {
+  if (payload?.error && typeof payload.error === "object") {
+    return createExnestError(payload);
+  }
+  const message = typeof payload?.error === "string" ? payload.error : payload?.message;
+  return new StreamError(message || "Stream error event received");
+}
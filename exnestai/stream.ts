@@ -0,0 +1,215 @@
+/**
+ * ExnestAI Chat Stream
+ * Async-iterable chat stream with callback, text, Web Streams, Node stream and tee interfaces
+ */
+
+import type { Readable } from "stream";
+import type { ExnestChatResponse, ExnestStreamChunk } from "./client.services";
+import { ChatStreamAccumulator } from "./accumulator";
+import { StreamError } from "./errors";
+
+export interface ExnestStreamHandlers {
+  onChunk?: (chunk: ExnestStreamChunk) => void | Promise<void>;
+  onToken?: (token: string) => void | Promise<void>;      // Content delta of the first choice
+  onDone?: (response: ExnestChatResponse) => void | Promise<void>;
+  onError?: (error: unknown) => void | Promise<void>;     // When set, errors are not rethrown
+}
+
+/**
+ * Chat completion stream returned by ExnestAI.stream()
+ *
+ * Iterate it with `for await` as before, or use one of the alternative interfaces.
+ * A stream can only be consumed once; use tee() to share it between several consumers.
+ */
+export class ExnestChatStream implements AsyncGenerator<ExnestStreamChunk, void, unknown> {
+  private readonly source: AsyncIterator<ExnestStreamChunk, void, unknown>;
+  private readonly accumulator = new ChatStreamAccumulator();
+  private teed = false;
+
+  constructor(source: AsyncIterable<ExnestStreamChunk>) {
+    this.source = source[Symbol.asyncIterator]();
+  }
+
+  async next(): Promise<IteratorResult<ExnestStreamChunk, void>> {
+    if (this.teed) {
+      throw new StreamError("Stream has been teed, consume the branches instead");
+    }
+
+    const result = await this.source.next();
+    if (!result.done) {
+      this.accumulator.add(result.value);
+    }
+    return result;
+  }
+
+  async return(): Promise<IteratorResult<ExnestStreamChunk, void>> {
+    await this.source.return?.();
+    return { done: true, value: undefined };
+  }
+
+  async throw(error: unknown): Promise<IteratorResult<ExnestStreamChunk, void>> {
+    if (this.source.throw) {
+      return this.source.throw(error);
+    }
+    throw error;
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /**
+   * Async iterable of the first choice's content deltas only
+   */
+  get textStream(): AsyncIterable<string> {
+    const stream = this;
+    return {
+      async *[Symbol.asyncIterator]() {
+        for await (const chunk of stream) {
+          const content = chunk.choices?.[0]?.delta?.content;
+          if (content) {
+            yield content;
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Consume the rest of the stream and return the merged ExnestChatResponse
+   */
+  async finalResponse(): Promise<ExnestChatResponse> {
+    while (!(await this.next()).done) {
+      // Chunks are merged by next()
+    }
+    return this.accumulator.toResponse();
+  }
+
+  /**
+   * Consume the stream with event callbacks
+   * @returns The merged response, or undefined when an error was passed to onError
+   */
+  async consume(handlers: ExnestStreamHandlers): Promise<ExnestChatResponse | undefined> {
+    try {
+      for await (const chunk of this) {
+        await handlers.onChunk?.(chunk);
+
+        const content = chunk.choices?.[0]?.delta?.content;
+        if (content) {
+          await handlers.onToken?.(content);
+        }
+      }
+
+      const response = this.accumulator.toResponse();
+      await handlers.onDone?.(response);
+      return response;
+    } catch (error) {
+      if (!handlers.onError) {
+        throw error;
+      }
+      await handlers.onError(error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert to a WHATWG ReadableStream of chunks (cancelling it closes the upstream request)
+   */
+  toReadableStream(): ReadableStream<ExnestStreamChunk> {
+    const stream = this;
+    return new ReadableStream<ExnestStreamChunk>({
+      async pull(controller) {
+        try {
+          const { done, value } = await stream.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await stream.return();
+      },
+    });
+  }
+
+  /**
+   * Convert to a Node.js object-mode Readable of chunks (Node.js only)
+   */
+  toNodeReadable(): Readable {
+    // Required lazily so the SDK still loads in runtimes without node:stream
+    const { Readable } = require("stream") as typeof import("stream");
+    return Readable.from(this, { objectMode: true });
+  }
+
+  /**
+   * Split the stream into independent branches sharing one upstream request.
+   * Branches buffer chunks until they are read; the upstream request is closed
+   * once every branch has finished or been closed.
+   * @param count - Number of branches (default: 2)
+   */
+  tee(count = 2): ExnestChatStream[] {
+    if (this.teed) {
+      throw new StreamError("Stream has already been teed");
+    }
+    this.teed = true;
+
+    const source = this.source;
+    const buffers: ExnestStreamChunk[][] = Array.from({ length: count }, () => []);
+    const active = new Set(buffers.map((_, index) => index));
+    let pending: Promise<void> | null = null;
+    let done = false;
+    let failure: { error: unknown } | null = null;
+
+    const pull = (): Promise<void> => {
+      if (!pending) {
+        pending = source
+          .next()
+          .then(
+            result => {
+              if (result.done) {
+                done = true;
+                return;
+              }
+              active.forEach(index => buffers[index].push(result.value));
+            },
+            error => {
+              failure = { error };
+              done = true;
+            }
+          )
+          .finally(() => {
+            pending = null;
+          });
+      }
+      return pending;
+    };
+
+    const branch = (index: number): AsyncIterable<ExnestStreamChunk> => ({
+      async *[Symbol.asyncIterator]() {
+        try {
+          while (true) {
+            if (buffers[index].length > 0) {
+              yield buffers[index].shift()!;
+              continue;
+            }
+            if (failure) throw failure.error;
+            if (done) return;
+            await pull();
+          }
+        } finally {
+          active.delete(index);
+          buffers[index].length = 0;
+          if (active.size === 0 && !done) {
+            await source.return?.();
+          }
+        }
+      },
+    });
+
+    return buffers.map((_, index) => new ExnestChatStream(branch(index)));
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * ExnestAI Structured Outputs
+ * JSON response formats with parsing, validation and optional repair round-trips
+ */
+
+import type {
+  ExnestAI,
+  ExnestChatOptions,
+  ExnestChatResponse,
+  ExnestMessage,
+} from "./client.services";
+import { ExnestError, createExnestError } from "./errors";
+
+export type ExnestResponseFormat =
+  | { type: "text" }
+  | { type: "json_object" }
+  | {
+      type: "json_schema";
+      json_schema: {
+        name: string;
+        description?: string;
+        schema: Record<string, any>;
+        strict?: boolean;
+      };
+    };
+
+// Validator function: return the typed value or throw to reject it
+export type ExnestValidator<T> = ((value: unknown) => T) | { parse(value: unknown): T };
+
+export interface ExnestStructuredOptions<T> extends Omit<ExnestChatOptions, "responseFormat" | "stream"> {
+  schema?: Record<string, any>;  // JSON Schema sent as json_schema and checked locally
+  schemaName?: string;           // Name for the json_schema format (default: "response")
+  strict?: boolean;              // Ask the provider for strict schema adherence
+  validate?: ExnestValidator<T>; // Extra validation / parsing after the schema check
+  maxRepairs?: number;           // Re-ask the model with the validation error this many times (default: 0)
+}
+
+export interface ExnestStructuredResult<T> {
+  data: T;
+  response: ExnestChatResponse;  // Raw response of the successful attempt
+  attempts: number;
+}
+
+/**
+ * Thrown when the model output cannot be parsed or does not pass validation
+ */
+export class ExnestStructuredOutputError extends ExnestError {
+  readonly content: string | null;
+  readonly response: ExnestChatResponse;
+  readonly attempts: number;
+
+  constructor(message: string, content: string | null, response: ExnestChatResponse, attempts: number) {
+    super(message, { code: "invalid_structured_output", type: "invalid_response_error" });
+    this.content = content;
+    this.response = response;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Run a chat completion in JSON mode and return the parsed, validated object
+ * @param client - Advanced client used for the chat calls
+ * @param model - Model identifier
+ * @param messages - Chat messages (not mutated)
+ * @param options - Schema and/or validator, repair attempts and regular chat options
+ * @returns Promise<ExnestStructuredResult<T>>
+ * @throws ExnestError for API errors, ExnestStructuredOutputError for invalid output
+ */
+export async function chatStructured<T = unknown>(
+  client: ExnestAI,
+  model: string,
+  messages: ExnestMessage[],
+  options: ExnestStructuredOptions<T> = {}
+): Promise<ExnestStructuredResult<T>> {
+  const { schema, schemaName = "response", strict, validate, maxRepairs = 0, ...chatOptions } = options;
+
+  const responseFormat: ExnestResponseFormat = schema
+    ? {
+        type: "json_schema",
+        json_schema: { name: schemaName, schema, ...(strict !== undefined ? { strict } : {}) },
+      }
+    : { type: "json_object" };
+
+  const history = [...messages];
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await client.chat(model, history, { ...chatOptions, responseFormat });
+
+    if (response.error) {
+      throw createExnestError(response);
+    }
+
+    const content = response.choices?.[0]?.message?.content ?? null;
+    const outcome = parseStructuredContent<T>(content, schema, validate);
+
+    if (outcome.success) {
+      return { data: outcome.data, response, attempts: attempt };
+    }
+
+    if (attempt > maxRepairs) {
+      throw new ExnestStructuredOutputError(
+        `Structured output validation failed: ${outcome.error}`,
+        content,
+        response,
+        attempt
+      );
+    }
+
+    history.push(
+      { role: "assistant", content: content ?? "" },
+      {
+        role: "user",
+        content: `Your previous response was not valid: ${outcome.error}. Respond again with only valid JSON that fixes this.`,
+      }
+    );
+  }
+}
+
+/**
+ * Parse JSON model output and validate it against an optional schema and validator
+ * @returns The typed value on success, otherwise a readable error
+ */
+export function parseStructuredContent<T>(
+  content: string | null,
+  schema?: Record<string, any>,
+  validate?: ExnestValidator<T>
+): { success: true; data: T } | { success: false; error: string } {
+  if (!content) {
+    return { success: false, error: "response content is empty" };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(content));
+  } catch (error: any) {
+    return { success: false, error: `invalid JSON (${error.message})` };
+  }
+
+  if (schema) {
+    const errors = validateJsonSchema(value, schema);
+    if (errors.length > 0) {
+      return { success: false, error: errors.join("; ") };
+    }
+  }
+
+  if (!validate) {
+    return { success: true, data: value as T };
+  }
+
+  try {
+    const data = typeof validate === "function" ? validate(value) : validate.parse(value);
+    return { success: true, data };
+  } catch (error: any) {
+    return { success: false, error: error?.message || String(error) };
+  }
+}
+
+/**
+ * Validate a value against the commonly used subset of JSON Schema
+ * (type, enum, const, properties, required, additionalProperties, items, anyOf/oneOf, and bounds)
+ * @returns List of error messages, empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: Record<string, any>, path = "$"): string[] {
+  if (!schema || typeof schema !== "object") {
+    return [];
+  }
+
+  const errors: string[] = [];
+
+  if (schema.anyOf) {
+    const variants: Record<string, any>[] = schema.anyOf;
+    if (!variants.some(variant => validateJsonSchema(value, variant, path).length === 0)) {
+      errors.push(`${path} does not match any allowed schema`);
+    }
+  }
+  if (schema.oneOf) {
+    const variants: Record<string, any>[] = schema.oneOf;
+    const matches = variants.filter(variant => validateJsonSchema(value, variant, path).length === 0).length;
+    if (matches === 0) {
+      errors.push(`${path} does not match any allowed schema`);
+    } else if (matches > 1) {
+      errors.push(`${path} matches ${matches} schemas but must match exactly one`);
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${path} must be of type ${types.join(" | ")}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    errors.push(`${path} must be one of ${JSON.stringify(schema.enum)}`);
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path} must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path} must have at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path} must have at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path} must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path} must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path} must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items, `${path}[${index}]`)));
+    }
+  }
+
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key} is required`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      if (properties[key]) {
+        errors.push(...validateJsonSchema(propertyValue, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key} is not allowed`);
+      } else if (typeof schema.additionalProperties === "object") {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return value !== null && typeof value === "object" && !Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Remove a surrounding Markdown code fence some models add around JSON
+ */
+function stripCodeFence(content: string): string {
+  const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : content;
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "bun:test";
+import { ChatStreamAccumulator } from "../accumulator";
+import type { ExnestStreamChunk } from "../client.services";
+
+function chunk(choices: any[], extra: Partial<ExnestStreamChunk> = {}): ExnestStreamChunk {
+  return { id: "chatcmpl-1", object: "chat.completion.chunk", created: 1700000000, model: "gpt-4.1-mini", choices, ...extra };
+}
+
+describe("ChatStreamAccumulator", () => {
+  it("should rebuild content, roles and finish reasons for multiple choices", () => {
+    const accumulator = new ChatStreamAccumulator()
+      .add(chunk([{ index: 0, delta: { role: "assistant", content: "Hel" }, finish_reason: null }]))
+      .add(chunk([{ index: 1, delta: { role: "assistant", content: "Bon" }, finish_reason: null }]))
+      .add(chunk([{ index: 0, delta: { content: "lo" }, finish_reason: "stop" }]))
+      .add(chunk([{ index: 1, delta: { content: "jour" }, finish_reason: "length" }]));
+
+    const response = accumulator.toResponse();
+    expect(accumulator.text).toBe("Hello");
+    expect(response.id).toBe("chatcmpl-1");
+    expect(response.object).toBe("chat.completion");
+    expect(response.choices).toEqual([
+      { index: 0, message: { role: "assistant", content: "Hello" }, finish_reason: "stop" },
+      { index: 1, message: { role: "assistant", content: "Bonjour" }, finish_reason: "length" },
+    ]);
+  });
+
+  it("should merge tool call deltas and trailing usage and exnest metadata", async () => {
+    async function* stream() {
+      yield chunk([{ index: 0, delta: { role: "assistant", tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "get_weather", arguments: "" } }] }, finish_reason: null }]);
+      yield chunk([{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: "{\"city\":" } }] }, finish_reason: null }]);
+      yield chunk([{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: "\"Paris\"}" } }] }, finish_reason: "tool_calls" }]);
+      yield chunk([], {
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+        exnest: { processing_time_ms: 42 },
+      });
+    }
+
+    const response = await ChatStreamAccumulator.collect(stream());
+    expect(response.choices?.[0]?.message).toEqual({
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Paris\"}" } }],
+    });
+    expect(response.choices?.[0]?.finish_reason).toBe("tool_calls");
+    expect(response.usage?.total_tokens).toBe(15);
+    expect(response.exnest?.processing_time_ms).toBe(42);
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ExnestAI } from "../client.services";
+import { ExnestError, ModelNotFoundError } from "../errors";
+import type { ExnestBatchProgress, ExnestBatchRequest } from "../batch";
+import { chatReply, jsonResponse, mockApi, type MockRequest } from "./helpers";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const inputText = (body: any): string => body.prompt ?? body.messages[body.messages.length - 1].content;
+
+const inputs = (requests: MockRequest[]) => requests.map(request => inputText(request.body));
+
+// Echoes the last message (or prompt); "fail" answers with a 400, "missing" with a 404
+function batchApi() {
+  return mockApi(async ({ path, body }) => {
+    const text = inputText(body);
+    // Later jobs finish first, so results must be put back in input order
+    await sleep(text.length % 3);
+    if (text === "fail" || text === "missing") {
+      return jsonResponse({ error: { message: `${text} request`, code: text === "fail" ? "invalid_request" : "model_not_found" } }, text === "fail" ? 400 : 404);
+    }
+    const usage = { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 };
+    const exnest = { billing: { actual_cost_usd: "0.25" } };
+    if (path === "/completions") {
+      return { object: "text_completion", choices: [{ index: 0, text: `echo ${text}`, finish_reason: "stop" }], usage, exnest };
+    }
+    return chatReply(`echo ${text}`, { usage, exnest });
+  });
+}
+
+const chat = (content: string, id?: string): ExnestBatchRequest => ({ id, model: "gpt-4.1-mini", messages: [{ role: "user", content }] });
+
+describe("Batch execution", () => {
+  it("should return results in input order with aggregate usage and cost", async () => {
+    const { fetch } = batchApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+    const progress: ExnestBatchProgress[] = [];
+
+    const result = await client.batch(
+      [chat("first"), { type: "completion", model: "gpt-4.1-mini", prompt: "second" }, chat("fail"), chat("fourth!")],
+      { concurrency: 2, onProgress: update => progress.push(update) }
+    );
+
+    expect(result.results.map(item => item.status)).toEqual(["success", "success", "error", "success"]);
+    const [first, second, failed] = result.results;
+    expect(first.status === "success" && first.response.choices[0].message.content).toBe("echo first");
+    expect(second.status === "success" && second.response.object).toBe("text_completion");
+    expect(failed.status === "error" && failed.error).toBeInstanceOf(ExnestError);
+    expect(failed.status === "error" && failed.error.code).toBe("invalid_request");
+
+    expect(result.succeeded).toBe(3);
+    expect(result.failed).toBe(1);
+    expect(result.usage).toEqual({ prompt_tokens: 6, completion_tokens: 9, total_tokens: 15 });
+    expect(result.costUsd).toBeCloseTo(0.75);
+
+    expect(progress).toHaveLength(4);
+    expect(progress[3]).toMatchObject({ total: 4, completed: 4, succeeded: 3, failed: 1 });
+  });
+
+  it("should stop starting jobs after an error with stopOnError", async () => {
+    const { fetch, requests } = batchApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0, throwOnError: true });
+
+    const result = await client.batch([chat("one"), chat("missing"), chat("three"), chat("four")], {
+      concurrency: 1,
+      stopOnError: true,
+    });
+
+    expect(inputs(requests)).toEqual(["one", "missing"]);
+    expect(result.results.map(item => item.status)).toEqual(["success", "error", "skipped", "skipped"]);
+    expect(result.results[1].status === "error" && result.results[1].error).toBeInstanceOf(ModelNotFoundError);
+    expect(result.skipped).toBe(2);
+  });
+
+  it("should resume from a checkpoint file and redo failed or changed items", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "exnest-batch-"));
+    try {
+      const checkpoint = join(dir, "batch.jsonl");
+      const { fetch, requests } = batchApi();
+      const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+      const first = await client.batch([chat("alpha", "a"), chat("fail", "b"), chat("gamma", "c")], { checkpoint });
+      expect(first.succeeded).toBe(2);
+
+      const sent = requests.length;
+      const second = await client.batch([chat("alpha", "a"), chat("beta", "b"), chat("gamma changed", "c")], { checkpoint });
+
+      expect(inputs(requests.slice(sent)).sort()).toEqual(["beta", "gamma changed"]);
+      expect(second.resumed).toBe(1);
+      expect(second.succeeded).toBe(3);
+      expect(second.results[0].status === "success" && second.results[0].resumed).toBe(true);
+      expect(second.costUsd).toBeCloseTo(0.75);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should keep results when saving a checkpoint fails", async () => {
+    const { fetch } = batchApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+    const saved: string[] = [];
+
+    const result = await client.batch([chat("alpha", "a"), chat("beta", "b"), chat("gamma", "c")], {
+      concurrency: 2,
+      checkpoint: {
+        load: async () => [],
+        append: async entry => {
+          if (entry.key === "b") throw new Error("disk full");
+          saved.push(entry.key);
+        },
+      },
+    });
+
+    expect(result.succeeded).toBe(3);
+    expect(saved.sort()).toEqual(["a", "c"]);
+    const [alpha, beta] = result.results;
+    expect(alpha.status === "success" && alpha.checkpointError).toBeUndefined();
+    expect(beta.status === "success" && beta.checkpointError?.message).toBe("disk full");
+  });
+
+  it("should keep running when the progress callback throws", async () => {
+    const { fetch } = batchApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+    let updates = 0;
+
+    const result = await client.batch([chat("alpha"), chat("beta"), chat("gamma")], {
+      concurrency: 2,
+      onProgress: () => {
+        updates++;
+        throw new Error("progress bar closed");
+      },
+    });
+
+    expect(updates).toBe(3);
+    expect(result.results.map(item => item.status)).toEqual(["success", "success", "success"]);
+  });
+});
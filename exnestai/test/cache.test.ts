@@ -0,0 +1,141 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ExnestAI } from "../client.services";
+import { FileCacheStore, KeyValueCacheStore, MemoryCacheStore, ResponseCache } from "../cache";
+import { BudgetExceededError, SpendTracker } from "../spend";
+import { chatChunk, chatReply, mockApi, sseResponse } from "./helpers";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const billing = { transaction_id: "tx_1", actual_cost_usd: "0.5" } as any;
+
+function cacheApi() {
+  let calls = 0;
+  return mockApi(({ body }) => {
+    calls++;
+    if (body.stream) {
+      return sseResponse([
+        chatChunk("Hel", { id: "s1" }),
+        { id: "s1", choices: [{ index: 0, delta: { content: "lo" }, finish_reason: "stop" }] },
+        { choices: [], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }, exnest: { billing } },
+      ]);
+    }
+    return chatReply(`Reply ${calls}`, { usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 }, exnest: { billing } });
+  });
+}
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+describe("Response cache", () => {
+  it("should serve repeated chat calls from the cache without tracking spend twice", async () => {
+    const { fetch, requests } = cacheApi();
+    const tracker = new SpendTracker();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, cache: {}, spendTracker: tracker });
+
+    const first = await client.chat("gpt-4.1-mini", messages, { temperature: 0 });
+    const second = await client.chat("gpt-4.1-mini", messages, { temperature: 0 });
+
+    expect(requests).toHaveLength(1);
+    expect(first.cache).toBeUndefined();
+    expect(second.choices![0].message!.content).toBe("Reply 1");
+    expect(second.cache).toMatchObject({ hit: true });
+    expect((await tracker.getSummary()).requests).toBe(1);
+
+    // Other generation options and cache: false go to the API
+    await client.chat("gpt-4.1-mini", messages, { temperature: 1 });
+    await client.chat("gpt-4.1-mini", messages, { temperature: 0, cache: false });
+    expect(requests).toHaveLength(3);
+  });
+
+  it("should skip middleware on hits but still apply the budget checks", async () => {
+    const { fetch, requests } = cacheApi();
+    const tracker = new SpendTracker({ budget: { total: 1 } });
+    const seen: string[] = [];
+    const client = new ExnestAI({ apiKey: "test-key", fetch, cache: {}, spendTracker: tracker })
+      .use(async (ctx, next) => {
+        seen.push(ctx.endpoint);
+        return next();
+      });
+
+    await client.chat("gpt-4.1-mini", messages);
+    await client.chat("gpt-4.1-mini", messages);
+    expect(requests).toHaveLength(1);
+    expect(seen).toEqual(["/chat/completions"]);
+
+    // The lookup comes after the budget check, so a spent budget refuses cached requests too
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    await expect(client.chat("gpt-4.1-mini", messages)).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("should replay cached stream chunks", async () => {
+    const { fetch, requests } = cacheApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, cache: {} });
+
+    const live = await client.stream("gpt-4.1-mini", messages).finalResponse();
+    const replayed = await client.stream("gpt-4.1-mini", messages).finalResponse();
+
+    expect(requests).toHaveLength(1);
+    expect(replayed.choices).toEqual(live.choices);
+    expect(replayed.usage).toEqual(live.usage);
+    expect(replayed.cache?.hit).toBe(true);
+  });
+
+  it("should build stable keys and expire entries after the ttl", async () => {
+    const cache = new ResponseCache({ ttl: 20 });
+    const key = cache.keyFor("/chat/completions", { model: "m", messages, temperature: 0, api_key: "a" });
+    expect(cache.keyFor("/chat/completions", { api_key: "b", temperature: 0, messages, model: "m" })).toBe(key);
+    expect(cache.keyFor("/completions", { model: "m", messages, temperature: 0 })).not.toBe(key);
+
+    await cache.set(key, { value: 1 });
+    expect((await cache.get<{ value: number }>(key))?.value).toEqual({ value: 1 });
+    await sleep(30);
+    expect(await cache.get(key)).toBeUndefined();
+  });
+
+  it("should evict the least recently used memory entries", async () => {
+    const store = new MemoryCacheStore(2);
+    const entry = (value: number) => ({ value, storedAt: Date.now() });
+    await store.set("a", entry(1));
+    await store.set("b", entry(2));
+    await store.get("a");
+    await store.set("c", entry(3));
+
+    expect(await store.get("b")).toBeUndefined();
+    expect((await store.get("a"))?.value).toBe(1);
+    expect(store.size).toBe(2);
+  });
+
+  it("should persist entries in file and key-value stores", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "exnest-cache-"));
+    try {
+      const first = new ResponseCache({ store: new FileCacheStore(join(dir, "cache")) });
+      await first.set("exnest:abc", { answer: 42 });
+      const second = new ResponseCache({ store: new FileCacheStore(join(dir, "cache")) });
+      expect((await second.get("exnest:abc"))?.value).toEqual({ answer: 42 });
+      await second.clear();
+      expect(await second.get("exnest:abc")).toBeUndefined();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+
+    const values = new Map<string, string>();
+    const ttls: Array<number | undefined> = [];
+    const redisLike = new ResponseCache({
+      ttl: 60000,
+      store: new KeyValueCacheStore({
+        get: async key => values.get(key),
+        set: async (key, value, ttlMs) => {
+          ttls.push(ttlMs);
+          values.set(key, value);
+        },
+        del: async key => values.delete(key),
+      }),
+    });
+    await redisLike.set("k", [1, 2]);
+    expect((await redisLike.get("k"))?.value).toEqual([1, 2]);
+    expect(ttls[0]).toBeGreaterThan(59000);
+  });
+});
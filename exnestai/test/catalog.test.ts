@@ -0,0 +1,125 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { matchesFilter, pricePerMillion } from "../catalog";
+import { ModelNotFoundError, RequestAbortedError } from "../errors";
+import { jsonResponse, makeModel, mockApi, type MockRequest } from "./helpers";
+
+const models = [
+  makeModel("openai:gpt-4o-mini", { pricing: { inputPrice: "0.15", outputPrice: "0.6" } }),
+  makeModel("anthropic:claude-3", { limits: { maxTokens: 8192, contextWindow: 200000 } }),
+  makeModel("google:gemini-pro", { isActive: false, pricing: { inputPrice: "0.002", outputPrice: "0.004", per: "1K tokens" } }),
+];
+
+function catalogApi() {
+  return mockApi(({ path }) => {
+    if (path === "/models?openai_compatible=true") {
+      return {
+        object: "list",
+        data: models.map(model => ({ id: model.name, object: "model", created: 1704067200, owned_by: model.provider.id })),
+      };
+    }
+    if (path === "/models") {
+      return { success: true, data: models };
+    }
+    if (path.startsWith("/models/provider/")) {
+      const provider = decodeURIComponent(path.slice("/models/provider/".length));
+      return { success: true, data: models.filter(model => model.provider.id === provider) };
+    }
+    const model = models.find(model => `/models/${encodeURIComponent(model.name)}` === path);
+    if (!model) {
+      return jsonResponse({ error: { message: "Model not found", code: "model_not_found" } }, 404);
+    }
+    return { success: true, data: model };
+  });
+}
+
+const paths = (requests: MockRequest[]) => requests.map(request => request.path);
+
+describe("Model catalog", () => {
+  it("should return typed models and cache them for the TTL", async () => {
+    const { fetch, requests } = catalogApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch });
+
+    const list = await client.getModels();
+    expect(list.map(model => model.name)).toEqual(models.map(model => model.name));
+    await client.getModels();
+    expect(paths(requests)).toEqual(["/models"]);
+
+    await client.getModels({ refresh: true });
+    expect(requests.length).toBe(2);
+
+    client.updateConfig({ modelCacheTtl: 0 });
+    await client.getModels();
+    await client.getModels();
+    expect(requests.length).toBe(4);
+  });
+
+  it("should end only the aborted caller's wait on a shared lookup", async () => {
+    const { fetch: respond } = catalogApi();
+    const { fetch, requests } = mockApi(async request => {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return respond(request.url, { method: request.method });
+    });
+    const client = new ExnestAI({ apiKey: "test-key", fetch });
+    const controller = new AbortController();
+
+    const aborted = client.getModels({ signal: controller.signal });
+    const other = client.getModels();
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(RequestAbortedError);
+    expect((await other).length).toBe(3);
+    expect(paths(requests)).toEqual(["/models"]);
+  });
+
+  it("should return the OpenAI-compatible shape when requested", async () => {
+    const { fetch } = catalogApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch });
+
+    const list = await client.getModels({ openaiCompatible: true });
+    expect(list[0]).toEqual({ id: "openai:gpt-4o-mini", object: "model", created: 1704067200, owned_by: "openai" });
+  });
+
+  it("should URL-encode model names and throw typed errors", async () => {
+    const { fetch, requests } = catalogApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, maxRetries: 0 });
+
+    const model = await client.getModel("anthropic:claude-3");
+    expect(model.limits.contextWindow).toBe(200000);
+    expect(paths(requests)).toEqual(["/models/anthropic%3Aclaude-3"]);
+
+    let caught: any = null;
+    try {
+      await client.getModel("unknown:model");
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(ModelNotFoundError);
+
+    // Failed lookups are not cached
+    await client.getModel("unknown:model").catch(() => undefined);
+    expect(paths(requests).filter(path => path === "/models/unknown%3Amodel").length).toBe(2);
+
+    const byProvider = await client.getModelsByProvider("google");
+    expect(byProvider.map(model => model.name)).toEqual(["google:gemini-pro"]);
+  });
+
+  it("should search and filter by provider, price, context window and status", async () => {
+    const { fetch, requests } = catalogApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch });
+    const names = (list: { name: string }[]) => list.map(model => model.name);
+
+    expect(names(await client.catalog.search("CLAUDE"))).toEqual(["anthropic:claude-3"]);
+    expect(names(await client.catalog.find({ provider: ["openai", "google"] }))).toEqual(["openai:gpt-4o-mini", "google:gemini-pro"]);
+    expect(names(await client.catalog.find({ excludeProvider: "openai", isActive: true }))).toEqual(["anthropic:claude-3"]);
+    expect(names(await client.catalog.find({ maxInputPrice: 0.5 }))).toEqual(["openai:gpt-4o-mini"]);
+    expect(names(await client.catalog.find({ minContextWindow: 150000 }))).toEqual(["anthropic:claude-3"]);
+    expect(paths(requests)).toEqual(["/models"]);
+  });
+
+  it("should normalize prices to 1M tokens", () => {
+    expect(pricePerMillion(models[2] as any, "input")).toBeCloseTo(2);
+    expect(pricePerMillion(models[0] as any, "output")).toBeCloseTo(0.6);
+    expect(matchesFilter(models[2] as any, { maxOutputPrice: 3 })).toBe(false);
+  });
+});
@@ -1,5 +1,15 @@
 import { describe, it, expect } from "bun:test";
 import { ExnestAI } from "../client.services";
+import {
+  AuthenticationError,
+  InsufficientBalanceError,
+  InvalidRequestError,
+  NetworkError,
+  RequestAbortedError,
+  TimeoutError
+} from "../errors";
+import type { ExnestFetch } from "../transport";
+import { jsonResponse, mockApi } from "./helpers";
 
 describe("ExnestAI Client Services", () => {
   it("should create an instance with API key", () => {
@@ -46,7 +56,207 @@ describe("ExnestAI Client Services", () => {
       await client.chat("openai:gpt-4", [{ role: "invalid" as any, content: "Hello" }]);
       expect(true).toBe(false); // Should not reach here
     } catch (error: any) {
-      expect(error.message).toBe("Each message must have a valid role (system, user, or assistant)");
+      expect(error.message).toBe("Each message must have a valid role (system, user, assistant, or tool)");
     }
   });
-});
\ No newline at end of file
+
+  it("should accept tool call messages and send tool options", async () => {
+    const { fetch, requests } = mockApi(() => ({ object: "chat.completion", choices: [] }));
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    await client.chat(
+      "openai:gpt-4",
+      [
+        { role: "user", content: "What's the weather in Paris?" },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "get_weather", arguments: "{\"city\":\"Paris\"}" } }
+          ]
+        },
+        { role: "tool", tool_call_id: "call_1", content: "{\"temp\":18}" }
+      ],
+      {
+        tools: [{ type: "function", function: { name: "get_weather", parameters: { type: "object" } } }],
+        toolChoice: "auto"
+      }
+    );
+
+    const sentBody = requests[0].body;
+    expect(sentBody.tools[0].function.name).toBe("get_weather");
+    expect(sentBody.tool_choice).toBe("auto");
+    expect(sentBody.messages[2].tool_call_id).toBe("call_1");
+  });
+
+  it("should reject tool messages without tool_call_id", async () => {
+    const client = new ExnestAI({ apiKey: "test-key" });
+
+    try {
+      await client.chat("openai:gpt-4", [{ role: "tool", content: "result" }]);
+      expect(true).toBe(false); // Should not reach here
+    } catch (error: any) {
+      expect(error.message).toBe("Tool messages must have a tool_call_id");
+    }
+  });
+
+  it("should throw typed errors when throwOnError is enabled", async () => {
+    const { fetch } = mockApi(request => request.path === "/models"
+      ? jsonResponse({
+        error: { message: "Invalid API key", type: "authentication_error", code: "invalid_api_key" }
+      }, 401)
+      : jsonResponse({
+        error: {
+          message: "Insufficient balance",
+          type: "billing_error",
+          code: "insufficient_balance",
+          exnest: { transaction_refunded: true }
+        }
+      }, 402));
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0, throwOnError: true });
+
+    try {
+      await client.chat("openai:gpt-4", [{ role: "user", content: "Hello" }]);
+      expect(true).toBe(false); // Should not reach here
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(InsufficientBalanceError);
+      expect(error.status).toBe(402);
+      expect(error.code).toBe("insufficient_balance");
+      expect(error.transactionRefunded).toBe(true);
+    }
+
+    try {
+      await client.getModels();
+      expect(true).toBe(false); // Should not reach here
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(AuthenticationError);
+    }
+  });
+
+  it("should return error objects for network failures by default", async () => {
+    const { fetch } = mockApi(() => {
+      throw new TypeError("fetch failed");
+    });
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const response = await client.chat("openai:gpt-4", [{ role: "user", content: "Hello" }]);
+    expect(response.error?.code).toBe("network_error");
+    expect(response.error?.message).toBe("fetch failed");
+
+    client.updateConfig({ throwOnError: true });
+    await expect(client.chat("openai:gpt-4", [{ role: "user", content: "Hello" }])).rejects.toBeInstanceOf(NetworkError);
+    await expect(client.chat("", [])).rejects.toBeInstanceOf(InvalidRequestError);
+  });
+
+  it("should retry retryable statuses and respect Retry-After", async () => {
+    const retries: any[] = [];
+    const statuses = [429, 503, 200];
+    const { fetch } = mockApi(() => {
+      const status = statuses.shift()!;
+      if (status === 200) {
+        return { object: "chat.completion", choices: [] };
+      }
+      return new Response("<html>Unavailable</html>", { status, headers: { "Retry-After": "0" } });
+    });
+    const client = new ExnestAI({
+      apiKey: "test-key",
+      fetch,
+      retries: 2,
+      retryPolicy: { baseDelay: 1, onRetry: info => retries.push(info) }
+    });
+
+    const response = await client.chat("openai:gpt-4", [{ role: "user", content: "Hello" }]);
+    expect(response.error).toBeUndefined();
+    expect(retries.map(info => info.status)).toEqual([429, 503]);
+    expect(retries[0].retryAfterMs).toBe(0);
+    expect(retries[0].delayMs).toBe(0);
+  });
+
+  it("should not retry non-retryable statuses", async () => {
+    const { fetch, requests } = mockApi(() => jsonResponse({
+      error: { message: "Invalid API key", type: "authentication_error", code: "invalid_api_key" }
+    }, 401));
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 3, retryDelay: 1 });
+
+    const response = await client.chat("openai:gpt-4", [{ role: "user", content: "Hello" }]);
+    expect(response.error?.code).toBe("invalid_api_key");
+    expect(requests.length).toBe(1);
+  });
+
+  it("should abort requests and streams with the caller's signal", async () => {
+    let calls = 0;
+    const hangingFetch: ExnestFetch = (_url, init) => {
+      calls++;
+      return new Promise((_resolve, reject) => {
+        init.signal!.addEventListener("abort", () => {
+          reject(Object.assign(new Error("aborted"), { name: "AbortError" }));
+        });
+      });
+    };
+    const client = new ExnestAI({ apiKey: "test-key", fetch: hangingFetch, retries: 3, retryDelay: 1 });
+
+    const controller = new AbortController();
+    const pending = client.chat("openai:gpt-4", [{ role: "user", content: "Hello" }], { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(calls).toBe(1);
+
+    const encoder = new TextEncoder();
+    let cancelled = false;
+    const { fetch: streamFetch } = mockApi(() => new Response(new ReadableStream({
+      start(streamController) {
+        streamController.enqueue(encoder.encode('data: {"choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":null}]}\n\n'));
+      },
+      cancel() {
+        cancelled = true;
+      }
+    }), { headers: { "Content-Type": "text/event-stream" } }));
+    const streamClient = new ExnestAI({ apiKey: "test-key", fetch: streamFetch, retries: 3, retryDelay: 1 });
+
+    const streamController = new AbortController();
+    const chunks: any[] = [];
+    try {
+      for await (const chunk of streamClient.stream("openai:gpt-4", [{ role: "user", content: "Hello" }], { signal: streamController.signal })) {
+        chunks.push(chunk);
+        streamController.abort();
+      }
+      expect(true).toBe(false); // Should not reach here
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(RequestAbortedError);
+    }
+    expect(chunks.length).toBe(1);
+    expect(cancelled).toBe(true);
+  });
+
+  it("should fail stalled streams with phase-specific timeout errors", async () => {
+    const encoder = new TextEncoder();
+    const chunk = 'data: {"choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":null}]}\n\n';
+
+    const stalledStream = (chunks: string[]) => mockApi(() => new Response(new ReadableStream({
+      start(streamController) {
+        chunks.forEach(text => streamController.enqueue(encoder.encode(text)));
+      }
+    }), { headers: { "Content-Type": "text/event-stream" } })).fetch;
+
+    const collect = async (client: ExnestAI, options: any = {}) => {
+      const chunks: any[] = [];
+      try {
+        for await (const streamChunk of client.stream("openai:gpt-4", [{ role: "user", content: "Hello" }], options)) {
+          chunks.push(streamChunk);
+        }
+      } catch (error) {
+        return { chunks, error };
+      }
+      return { chunks, error: null };
+    };
+
+    const firstToken = await collect(new ExnestAI({ apiKey: "test-key", fetch: stalledStream([": keep-alive\n\n"]), firstTokenTimeout: 20 }));
+    expect(firstToken.error).toBeInstanceOf(TimeoutError);
+    expect((firstToken.error as TimeoutError).phase).toBe("first_token");
+
+    const idle = await collect(new ExnestAI({ apiKey: "test-key", fetch: stalledStream([chunk]) }), { idleTimeout: 20 });
+    expect(idle.chunks.length).toBe(1);
+    expect((idle.error as TimeoutError).phase).toBe("idle");
+    expect((idle.error as TimeoutError).message).toBe("Stream idle timeout after 20ms");
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtemp, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ExnestAI } from "../client.services";
+import { detectMimeType, imagePartFromBuffer, imagePartFromFile, filePartFromBuffer, isContentPartArray } from "../content";
+
+const PNG_BYTES = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+describe("ExnestAI multimodal content", () => {
+  it("should build image parts from a buffer with detected MIME type", () => {
+    const part = imagePartFromBuffer(PNG_BYTES, { detail: "low" });
+
+    expect(part.type).toBe("image_url");
+    expect(part.image_url.url).toBe(`data:image/png;base64,${PNG_BYTES.toString("base64")}`);
+    expect(part.image_url.detail).toBe("low");
+  });
+
+  it("should build image parts from a local file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "exnest-"));
+    const path = join(dir, "photo.jpg");
+    await writeFile(path, Buffer.from("not really a jpeg"));
+
+    const part = await imagePartFromFile(path);
+    expect(part.image_url.url.startsWith("data:image/jpeg;base64,")).toBe(true);
+  });
+
+  it("should detect MIME types from signatures and extensions", () => {
+    expect(detectMimeType(Buffer.from("%PDF-1.7"))).toBe("application/pdf");
+    expect(detectMimeType(undefined, "image.WEBP")).toBe("image/webp");
+    expect(detectMimeType(Buffer.from("hello"), "notes.unknown")).toBeUndefined();
+    expect(filePartFromBuffer(Buffer.from("a,b"), { filename: "data.csv" }).file.file_data).toBe("data:text/csv;base64,YSxi");
+    expect(() => imagePartFromBuffer(Buffer.from("hello"))).toThrow();
+  });
+
+  it("should validate content part arrays in chat messages", async () => {
+    const client = new ExnestAI({ apiKey: "test-key" });
+
+    try {
+      await client.chat("openai:gpt-4o", [{ role: "user", content: [{ type: "audio" } as any] }]);
+      expect(true).toBe(false); // Should not reach here
+    } catch (error: any) {
+      expect(error.message).toBe("Message content parts must be text, image_url, or file parts");
+    }
+
+    expect(isContentPartArray([{ type: "file", file: null }])).toBe(false);
+    expect(isContentPartArray([{ type: "file", file: { file_id: "file-1" } }])).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { Conversation } from "../conversation";
+import { chatChunk, chatReply, jsonResponse, mockApi, sseResponse } from "./helpers";
+
+describe("Conversation", () => {
+  it("should keep history and pin the system prompt", async () => {
+    let turn = 0;
+    const { fetch, requests } = mockApi(() => chatReply(`answer ${++turn}`));
+    const conversation = new Conversation(new ExnestAI({ apiKey: "test-key", fetch }), "gpt-4.1-mini", {
+      system: "Be brief.",
+      maxContextTokens: 100000,
+    });
+
+    await conversation.send("Hi");
+    const response = await conversation.send("And again?");
+
+    expect(response.choices?.[0]?.message?.content).toBe("answer 2");
+    expect(requests[1].body.messages.map((message: any) => message.role)).toEqual(["system", "user", "assistant", "user"]);
+    expect(conversation.messages).toHaveLength(5);
+    expect(conversation.messages[0]).toEqual({ role: "system", content: "Be brief." });
+  });
+
+  it("should trim the oldest turns to the model context window", async () => {
+    const { fetch, requests } = mockApi(({ url }) =>
+      url.includes("/models/")
+        ? { data: { limits: { contextWindow: 130, maxTokens: 50 } } }
+        : chatReply("x".repeat(80))
+    );
+    const conversation = new Conversation(new ExnestAI({ apiKey: "test-key", fetch }), "gpt-4.1-mini", {
+      system: "System prompt",
+      maxTokens: 50,
+    });
+
+    for (let i = 0; i < 4; i++) {
+      await conversation.send(`question ${i} ${"y".repeat(80)}`);
+    }
+
+    const modelLookups = requests.filter(request => request.url.includes("/models/"));
+    const lastMessages = requests[requests.length - 1].body.messages;
+    expect(modelLookups).toHaveLength(1);
+    expect(lastMessages[0].content).toBe("System prompt");
+    expect(lastMessages[lastMessages.length - 1].content).toStartWith("question 3");
+    expect(lastMessages.length).toBeLessThan(8);
+  });
+
+  it("should summarize trimmed turns when configured", async () => {
+    const { fetch } = mockApi(() => chatReply("ok"));
+    const summarized: number[] = [];
+    const conversation = new Conversation(new ExnestAI({ apiKey: "test-key", fetch }), "gpt-4.1-mini", {
+      maxContextTokens: 40,
+      strategy: "summarize",
+      summarize: async messages => {
+        summarized.push(messages.length);
+        return "User asked two things.";
+      },
+    });
+
+    await conversation.send("first " + "a".repeat(60));
+    await conversation.send("second " + "b".repeat(60));
+
+    expect(summarized).toEqual([2]);
+    expect(conversation.messages[0].content).toContain("User asked two things.");
+    expect(conversation.messages.slice(1).map(message => message.role)).toEqual(["user", "assistant"]);
+  });
+
+  it("should keep trimmed turns when the summarizer fails", async () => {
+    const { fetch } = mockApi(() => chatReply("ok"));
+    let fail = true;
+    const conversation = new Conversation(new ExnestAI({ apiKey: "test-key", fetch }), "gpt-4.1-mini", {
+      maxContextTokens: 40,
+      strategy: "summarize",
+      summarize: async () => {
+        if (fail) throw new Error("summarizer down");
+        return "User asked two things.";
+      },
+    });
+
+    await conversation.send("first " + "a".repeat(60));
+    await expect(conversation.send("second " + "b".repeat(60))).rejects.toThrow("summarizer down");
+    expect(conversation.messages.map(message => message.content)).toEqual(["first " + "a".repeat(60), "ok"]);
+
+    fail = false;
+    await conversation.send("second " + "b".repeat(60));
+    expect(conversation.messages[0].content).toContain("User asked two things.");
+  });
+
+  it("should record streamed replies and drop failed turns", async () => {
+    let fail = false;
+    const { fetch } = mockApi(() => {
+      if (fail) {
+        return jsonResponse({ error: { message: "Bad", type: "invalid_request_error", code: "bad" } }, 400);
+      }
+      return sseResponse([chatChunk("Hel"), chatChunk("lo")]);
+    });
+
+    const conversation = new Conversation(new ExnestAI({ apiKey: "test-key", fetch }), "gpt-4.1-mini", { maxContextTokens: 1000 });
+    const response = await conversation.sendStream("Say hello").finalResponse();
+    expect(response.choices?.[0]?.message?.content).toBe("Hello");
+    expect(conversation.messages).toEqual([
+      { role: "user", content: "Say hello" },
+      { role: "assistant", content: "Hello" },
+    ]);
+
+    fail = true;
+    const failed = await conversation.send("Again");
+    expect(failed.error?.code).toBe("bad");
+    expect(conversation.messages).toHaveLength(2);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { CostEstimateUnavailableError, CostLimitExceededError, estimateRequestCost, parsePricingUnit } from "../cost";
+import { mockApi } from "./helpers";
+
+const model = {
+  name: "gpt-4.1-mini",
+  pricing: { inputPrice: "2", outputPrice: "8", currency: "USD", per: "1M tokens" },
+  limits: { maxTokens: 1000, contextWindow: 100000 },
+};
+
+function costApi() {
+  return mockApi(({ url }) => (url.includes("/models/") ? { success: true, data: model } : { object: "chat.completion", choices: [] }));
+}
+
+describe("Cost estimation", () => {
+  it("should parse pricing units", () => {
+    expect(parsePricingUnit("1M tokens")).toBe(1_000_000);
+    expect(parsePricingUnit("1K")).toBe(1_000);
+    expect(parsePricingUnit("1,000 tokens")).toBe(1_000);
+    expect(parsePricingUnit("token")).toBe(1);
+    expect(parsePricingUnit(undefined)).toBe(1_000_000);
+  });
+
+  it("should estimate worst-case and expected cost", () => {
+    const estimate = estimateRequestCost(model, 500_000, { maxTokens: 100_000 })!;
+    expect(estimate.inputCost).toBeCloseTo(1);
+    expect(estimate.worstCaseCost).toBeCloseTo(1.8);
+    expect(estimate.expectedCost).toBeCloseTo(1.4);
+    expect(estimateRequestCost(model, 0)!.maxCompletionTokens).toBe(1000);
+    expect(estimateRequestCost({ ...model, pricing: { ...model.pricing, inputPrice: "n/a" } }, 10)).toBeUndefined();
+  });
+
+  it("should estimate from the cached catalog and enforce maxCostPerRequest", async () => {
+    const { fetch, requests } = costApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, maxCostPerRequest: 0.005 });
+
+    const estimate = await client.estimateCost("gpt-4.1-mini", [{ role: "user", content: "Hello" }], { maxTokens: 100 });
+    expect(estimate?.currency).toBe("USD");
+    expect(estimate!.worstCaseCost).toBeLessThan(0.005);
+
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hello" }], { maxTokens: 100 });
+
+    let caught: any = null;
+    try {
+      await client.chat("gpt-4.1-mini", [{ role: "user", content: "x".repeat(20000) }], { maxTokens: 1000 });
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(CostLimitExceededError);
+    expect(caught.estimate.worstCaseCost).toBeGreaterThan(0.005);
+    expect(requests.filter(({ url }) => url.includes("/models/"))).toHaveLength(1);
+    expect(requests.filter(({ url }) => url.includes("/chat/completions"))).toHaveLength(1);
+  });
+
+  it("should refuse requests it cannot price when the model lookup fails", async () => {
+    const { fetch, requests } = mockApi(({ url }) =>
+      url.includes("/models/") ? new Response("<html>Bad Gateway</html>", { status: 502 }) : { object: "chat.completion", choices: [] }
+    );
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0, maxCostPerRequest: 0.005 });
+    const messages = [{ role: "user" as const, content: "Hello" }];
+
+    let caught: any = null;
+    try {
+      await client.chat("gpt-4.1-mini", messages);
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(CostEstimateUnavailableError);
+    expect(caught.code).toBe("cost_estimate_unavailable");
+    expect(caught.cause.message).toBe("Request failed with status 502");
+    expect(requests.filter(({ url }) => url.includes("/chat/completions"))).toHaveLength(0);
+
+    const response = await client.chat("gpt-4.1-mini", messages, { allowUnpricedRequests: true });
+    expect(response.error).toBeUndefined();
+    expect(requests.filter(({ url }) => url.includes("/chat/completions"))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { AllModelsFailedError, fallbackChain, fallbackReason, shouldFallback } from "../fallback";
+import { AuthenticationError, ExnestError, RateLimitError, TimeoutError } from "../errors";
+import { chatChunk, chatReply, jsonResponse, mockApi, sseResponse, type MockRequest } from "./helpers";
+
+// Responds per model: a status code to fail with, or "ok"
+function fallbackApi(outcomes: Record<string, number | "ok">) {
+  return mockApi(({ body }) => {
+    const outcome = outcomes[body.model];
+    if (outcome !== "ok") {
+      return jsonResponse({ error: { message: `${body.model} unavailable`, code: "upstream_error" } }, outcome);
+    }
+    if (body.stream) {
+      return sseResponse([chatChunk("Hi", { model: body.model })]);
+    }
+    return chatReply("Hi", { model: body.model });
+  });
+}
+
+const requestedModels = (requests: MockRequest[]) => requests.map(request => request.body.model);
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+describe("Model fallback", () => {
+  it("should classify errors and build the chain", () => {
+    expect(fallbackReason(new TimeoutError())).toBe("timeout");
+    expect(fallbackReason(new RateLimitError("slow down"))).toBe("rate_limit");
+    expect(fallbackReason(new ExnestError("boom", { status: 502 }))).toBe("server_error");
+    expect(fallbackReason(new AuthenticationError("bad key", { status: 401 }))).toBeUndefined();
+    expect(shouldFallback(new TimeoutError(), ["rate_limit"])).toBe(false);
+    expect(shouldFallback(new AuthenticationError("bad key"), [error => error.code === "invalid_api_key"])).toBe(true);
+    expect(fallbackChain("a", ["a", "b", "c", "b"])).toEqual(["a", "b", "c"]);
+  });
+
+  it("should fall back to the next model and report the attempts", async () => {
+    const { fetch, requests } = fallbackApi({ "openai:gpt-4.1-mini": 503, "anthropic:claude-3-haiku": 429, "google:gemini-flash": "ok" });
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+    const events: string[] = [];
+
+    const response = await client.chat("openai:gpt-4.1-mini", messages, {
+      models: ["anthropic:claude-3-haiku", "google:gemini-flash"],
+      onFallback: event => events.push(`${event.model} -> ${event.nextModel}`),
+    });
+
+    expect(requestedModels(requests)).toEqual(["openai:gpt-4.1-mini", "anthropic:claude-3-haiku", "google:gemini-flash"]);
+    expect(response.choices?.[0]?.message?.content).toBe("Hi");
+    expect(response.fallback?.model).toBe("google:gemini-flash");
+    expect(response.fallback?.failed.map(attempt => attempt.model)).toEqual(["openai:gpt-4.1-mini", "anthropic:claude-3-haiku"]);
+    expect(response.fallback?.failed[1].error).toBeInstanceOf(RateLimitError);
+    expect(events).toEqual(["openai:gpt-4.1-mini -> anthropic:claude-3-haiku", "anthropic:claude-3-haiku -> google:gemini-flash"]);
+  });
+
+  it("should stop on errors outside the fallback conditions", async () => {
+    const { fetch, requests } = fallbackApi({ a: 401, b: "ok" });
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const response = await client.chat("a", messages, { models: ["b"] });
+    expect(requestedModels(requests)).toEqual(["a"]);
+    expect(response.error?.code).toBe("upstream_error");
+    expect(response.fallback?.failed.length).toBe(1);
+
+    const limited = await client.chat("a", messages, { models: ["b"], fallbackOn: ["rate_limit"] });
+    expect(limited.error).toBeDefined();
+  });
+
+  it("should throw AllModelsFailedError when every model fails in throwing mode", async () => {
+    const { fetch } = fallbackApi({ a: 500, b: 504 });
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0, throwOnError: true });
+
+    let caught: any = null;
+    try {
+      await client.chat("a", messages, { models: ["b"] });
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(AllModelsFailedError);
+    expect(caught.failed.map((attempt: any) => attempt.model)).toEqual(["a", "b"]);
+    expect(caught.failed[1].error).toBeInstanceOf(TimeoutError);
+  });
+
+  it("should fall back in streams before the first chunk", async () => {
+    const { fetch, requests } = fallbackApi({ a: 503, b: "ok" });
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const response = await client.stream("a", messages, { models: ["b"] }).finalResponse();
+    expect(requestedModels(requests)).toEqual(["a", "b"]);
+    expect(response.choices?.[0]?.message?.content).toBe("Hi");
+    expect(response.fallback?.model).toBe("b");
+    expect(response.fallback?.failed[0].model).toBe("a");
+  });
+});
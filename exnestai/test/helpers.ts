@@ -0,0 +1,92 @@
+/**
+ * Shared test doubles: a fake Exnest API passed to clients through the `fetch` option, and catalog fixtures
+ */
+
+import type { ExnestFetch } from "../transport";
+
+export interface MockRequest {
+  url: string;
+  path: string;                     // URL after the /v1 base, e.g. "/chat/completions"
+  method: string;
+  headers: Record<string, string>;
+  body: any;                        // Parsed JSON body, or null
+}
+
+// A Response is returned as is; anything else is sent as a 200 JSON body
+export type MockHandler = (request: MockRequest) => unknown | Promise<unknown>;
+
+/**
+ * Fake API recording every request; pass `fetch` to the client
+ */
+export function mockApi(handler: MockHandler): { fetch: ExnestFetch; requests: MockRequest[] } {
+  const requests: MockRequest[] = [];
+  const fetch: ExnestFetch = async (url, init) => {
+    const request: MockRequest = {
+      url,
+      path: url.replace(/^.*\/v1/, ""),
+      method: init.method || "GET",
+      headers: init.headers as Record<string, string>,
+      body: init.body ? JSON.parse(init.body as string) : null,
+    };
+    requests.push(request);
+    const result = await handler(request);
+    return result instanceof Response ? result : jsonResponse(result);
+  };
+  return { fetch, requests };
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status });
+}
+
+/**
+ * Server-sent events response: one read per event, then [DONE]
+ */
+export function sseResponse(events: unknown[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(
+    new ReadableStream({
+      start(controller) {
+        for (const event of events) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      },
+    }),
+    { headers: { "Content-Type": "text/event-stream" } }
+  );
+}
+
+export function chatReply(content: string, fields: Record<string, any> = {}) {
+  return {
+    object: "chat.completion",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    ...fields,
+  };
+}
+
+export function chatChunk(content: string, fields: Record<string, any> = {}) {
+  return { object: "chat.completion.chunk", choices: [{ index: 0, delta: { content }, finish_reason: null }], ...fields };
+}
+
+/**
+ * Catalog model; the provider is the part of the name before ":"; pricing and limits merge into the defaults
+ */
+export function makeModel(name: string, overrides: Record<string, any> = {}) {
+  const provider = name.split(":")[0];
+  const { pricing, limits, ...fields } = overrides;
+  return {
+    id: name,
+    name,
+    displayName: name.toUpperCase(),
+    description: `${provider} model`,
+    provider: { id: provider, name: provider, displayName: provider },
+    pricing: { inputPrice: "1", outputPrice: "4", currency: "USD", per: "1M tokens", ...pricing },
+    limits: { maxTokens: 4096, contextWindow: 128000, ...limits },
+    isActive: true,
+    createdAt: "2024-01-01T00:00:00Z",
+    updatedAt: "2024-01-01T00:00:00Z",
+    ...fields,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { ApiKeyPool, maskApiKey } from "../keys";
+import { AuthenticationError, RateLimitError } from "../errors";
+import { jsonResponse, mockApi, type MockRequest } from "./helpers";
+
+// Fails requests made with the given keys using the given status
+function keysApi(failures: Record<string, number> = {}) {
+  return mockApi(({ headers, body }) => {
+    expect(headers.Authorization).toBe(`Bearer ${body.api_key}`);
+    const status = failures[body.api_key];
+    if (status) {
+      return jsonResponse({ error: { message: "Key rejected", code: "key_error" } }, status);
+    }
+    return { object: "chat.completion", choices: [] };
+  });
+}
+
+const usedKeys = (requests: MockRequest[]) => requests.map(request => request.body.api_key);
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+describe("API key pool", () => {
+  it("should rotate round-robin and by weight", () => {
+    const pool = new ApiKeyPool({ keys: ["key-aaaa", "key-bbbb", "key-cccc"] });
+    expect([pool.acquire(), pool.acquire(), pool.acquire(), pool.acquire()]).toEqual(["key-aaaa", "key-bbbb", "key-cccc", "key-aaaa"]);
+
+    const weighted = new ApiKeyPool({ keys: [{ key: "key-aaaa", weight: 3 }, { key: "key-bbbb", weight: 1 }], strategy: "weighted" });
+    const picks = Array.from({ length: 8 }, () => weighted.acquire());
+    expect(picks.filter(key => key === "key-aaaa").length).toBe(6);
+    expect(picks.slice(0, 4)).toEqual(["key-aaaa", "key-aaaa", "key-bbbb", "key-aaaa"]);
+  });
+
+  it("should quarantine keys on auth errors and pause rate-limited keys", () => {
+    const pool = new ApiKeyPool({ keys: ["key-aaaa", "key-bbbb", "key-cccc"] });
+    pool.reportError("key-aaaa", new AuthenticationError("bad key"));
+    pool.reportError("key-bbbb", new RateLimitError("slow down", { retryAfterMs: 60000 }));
+
+    expect(pool.availableCount).toBe(1);
+    expect([pool.acquire(), pool.acquire()]).toEqual(["key-cccc", "key-cccc"]);
+
+    const status = pool.getStatus();
+    expect(status.map(entry => entry.state)).toEqual(["quarantined", "rate_limited", "active"]);
+    expect(status[0].key).toBe("****aaaa");
+    expect(status[1].lastError).toBe("rate_limit_exceeded");
+
+    // With every key unavailable, the one that frees up first is used
+    pool.reportError("key-cccc", new AuthenticationError("bad key"));
+    expect(pool.acquire()).toBe("key-bbbb");
+  });
+
+  it("should move to another key after an auth error and report the masked pool", async () => {
+    const { fetch, requests } = keysApi({ "key-aaaa": 401 });
+    const client = new ExnestAI({ fetch, apiKeys: ["key-aaaa", { key: "key-bbbb", label: "backup" }], retryDelay: 0 });
+
+    const response = await client.chat("gpt-4.1-mini", messages);
+    expect(response.error).toBeUndefined();
+    await client.chat("gpt-4.1-mini", messages);
+    expect(usedKeys(requests)).toEqual(["key-aaaa", "key-bbbb", "key-bbbb"]);
+
+    expect(client.getApiKeyInfo()).toBe("****aaaa (quarantined), backup ****bbbb");
+    const config = client.getConfig();
+    expect(config.apiKeys.map(entry => [entry.key, entry.state, entry.requests])).toEqual([
+      ["****aaaa", "quarantined", 1],
+      ["****bbbb", "active", 2],
+    ]);
+    expect(JSON.stringify(config)).not.toContain("key-aaaa");
+  });
+
+  it("should keep single-key behaviour and swap keys without touching requests in flight", async () => {
+    const { fetch, requests } = keysApi();
+    const client = new ExnestAI({ apiKey: "key-aaaa", fetch });
+    expect(client.getApiKeyInfo()).toBe(maskApiKey("key-aaaa"));
+
+    const pending = client.chat("gpt-4.1-mini", messages);
+    client.updateConfig({ apiKey: "key-bbbb" });
+    await pending;
+    await client.chat("gpt-4.1-mini", messages);
+    expect(usedKeys(requests)).toEqual(["key-aaaa", "key-bbbb"]);
+
+    expect(() => new ExnestAI({ apiKeys: [] })).toThrow("API key is required");
+  });
+});
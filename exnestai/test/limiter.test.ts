@@ -0,0 +1,107 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { RateLimiter, parseResetDuration } from "../limiter";
+import { RequestAbortedError } from "../errors";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe("Rate limiter", () => {
+  it("should limit concurrency and serve the queue in order", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+    const order: number[] = [];
+
+    const permits = await Promise.all([limiter.acquire("m"), limiter.acquire("m")]);
+    const waiting = [3, 4, 5].map(index => limiter.acquire("m").then(permit => {
+      order.push(index);
+      return permit;
+    }));
+
+    await sleep(5);
+    expect(limiter.getStats().client.queueDepth).toBe(3);
+    expect(limiter.getStats().client.active).toBe(2);
+
+    permits[0].release();
+    permits[1].release();
+    const [third, fourth] = await Promise.all(waiting.slice(0, 2));
+    expect(order).toEqual([3, 4]);
+    expect(limiter.getStats().client.queueDepth).toBe(1);
+
+    third.release();
+    (await waiting[2]).release();
+    fourth.release();
+    expect(order).toEqual([3, 4, 5]);
+
+    const stats = limiter.getStats().client;
+    expect(stats.acquired).toBe(5);
+    expect(stats.maxWaitMs).toBeGreaterThan(0);
+  });
+
+  it("should pace requests per minute and per model", async () => {
+    // 1200 RPM allows one request every 50ms once the burst is used up
+    // (measured from the start, since the bucket refills while the burst runs)
+    const started = Date.now();
+    const limiter = new RateLimiter({ perModel: { slow: { requestsPerMinute: 1200 } } });
+    for (let i = 0; i < 1200; i++) {
+      (await limiter.acquire("slow")).release();
+    }
+    (await limiter.acquire("slow")).release();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+
+    // Other models only use the client limits
+    const other = Date.now();
+    (await limiter.acquire("fast")).release();
+    expect(Date.now() - other).toBeLessThan(20);
+    expect(limiter.getStats().models.slow.acquired).toBe(1201);
+  });
+
+  it("should update limits from rate-limit headers", async () => {
+    const limiter = new RateLimiter();
+    limiter.updateFromHeaders(new Headers({
+      "x-ratelimit-limit-requests": "100",
+      "x-ratelimit-remaining-requests": "0",
+      "x-ratelimit-reset-requests": "30ms",
+      "x-ratelimit-limit-tokens": "50000",
+    }));
+
+    expect(limiter.getStats().client.limits).toEqual({ requestsPerMinute: 100, tokensPerMinute: 50000 });
+    const started = Date.now();
+    (await limiter.acquire("m", 10)).release();
+    expect(Date.now() - started).toBeGreaterThanOrEqual(25);
+
+    expect(parseResetDuration("6m0s")).toBe(360000);
+    expect(parseResetDuration("1.5s")).toBe(1500);
+    expect(parseResetDuration("2")).toBe(2000);
+  });
+
+  it("should reject queued calls when aborted", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const permit = await limiter.acquire("m");
+    const controller = new AbortController();
+
+    const queued = limiter.acquire("m", 0, controller.signal);
+    controller.abort();
+    await expect(queued).rejects.toBeInstanceOf(RequestAbortedError);
+    expect(limiter.getStats().client.queueDepth).toBe(0);
+    permit.release();
+  });
+
+  it("should queue client calls instead of sending them all at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const fetch = async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await sleep(10);
+      inFlight--;
+      return new Response(JSON.stringify({ object: "chat.completion", choices: [], usage: { prompt_tokens: 5, completion_tokens: 5, total_tokens: 10 } }));
+    };
+
+    const client = new ExnestAI({ apiKey: "test-key", fetch, rateLimits: { maxConcurrency: 2, tokensPerMinute: 1_000_000 } });
+    await Promise.all(Array.from({ length: 6 }, () => client.chat("gpt-4.1-mini", [{ role: "user", content: "Hello" }])));
+
+    expect(maxInFlight).toBe(2);
+    const stats = client.getRateLimitStats()!;
+    expect(stats.client.acquired).toBe(6);
+    expect(stats.client.active).toBe(0);
+  });
+});
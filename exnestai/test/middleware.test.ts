@@ -0,0 +1,139 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import type { ExnestMiddlewareContext } from "../middleware";
+import { chatChunk, chatReply, mockApi, sseResponse } from "./helpers";
+
+function middlewareApi() {
+  return mockApi(({ path, body }) => {
+    if (path === "/models") {
+      return { success: true, data: [{ id: "1", name: "gpt-4.1-mini", provider: { id: "openai" } }] };
+    }
+    if (body?.stream) {
+      return sseResponse([chatChunk("Hel"), chatChunk("lo")]);
+    }
+    return chatReply("Hi", { model: body.model });
+  });
+}
+
+const messages = [{ role: "user" as const, content: "My email is jane@example.com" }];
+
+describe("Middleware", () => {
+  it("should run in order and let middleware rewrite requests and inspect responses", async () => {
+    const { fetch, requests } = middlewareApi();
+    const order: string[] = [];
+    const seen: any[] = [];
+
+    const client = new ExnestAI({ apiKey: "test-key", fetch })
+      .use(async (ctx, next) => {
+        order.push("outer:before");
+        ctx.headers["X-Request-Id"] = "req-1";
+        const response = await next();
+        order.push("outer:after");
+        seen.push(response.body);
+        return response;
+      })
+      .use(async (ctx, next) => {
+        order.push("inner");
+        if (ctx.body) {
+          ctx.body.model = "openai:gpt-4.1";
+          ctx.body.messages = ctx.body.messages.map((message: any) => ({
+            ...message,
+            content: message.content.replace(/\S+@\S+/g, "[email]"),
+          }));
+        }
+        return next();
+      });
+
+    const response = await client.chat("gpt-4.1-mini", messages);
+
+    expect(order).toEqual(["outer:before", "inner", "outer:after"]);
+    expect(requests[0].headers["X-Request-Id"]).toBe("req-1");
+    expect(requests[0].body.model).toBe("openai:gpt-4.1");
+    expect(requests[0].body.messages[0].content).toBe("My email is [email]");
+    expect(response.model).toBe("openai:gpt-4.1");
+    expect(seen[0].model).toBe("openai:gpt-4.1");
+  });
+
+  it("should short-circuit with a synthetic response", async () => {
+    const { fetch, requests } = middlewareApi();
+    const client = new ExnestAI({
+      apiKey: "test-key",
+      fetch,
+      middleware: [
+        async ctx => ({
+          body: { object: "chat.completion", model: ctx.body?.model, choices: [{ index: 0, message: { role: "assistant", content: "Stubbed" } }] },
+        }),
+      ],
+    });
+
+    const response = await client.chat("gpt-4.1-mini", messages);
+    expect(requests).toHaveLength(0);
+    expect(response.choices![0].message!.content).toBe("Stubbed");
+  });
+
+  it("should see and transform each stream chunk", async () => {
+    const { fetch } = middlewareApi();
+    const contexts: ExnestMiddlewareContext[] = [];
+    const chunks: any[] = [];
+    const client = new ExnestAI({ apiKey: "test-key", fetch }).use(async (ctx, next) => {
+      contexts.push(ctx);
+      const response = await next();
+      if (!response.chunks) {
+        return response;
+      }
+      const source = response.chunks;
+      return {
+        ...response,
+        chunks: (async function* () {
+          for await (const chunk of source) {
+            chunks.push(chunk);
+            yield { ...chunk, choices: chunk.choices.map((choice: any) => ({ ...choice, delta: { content: choice.delta.content.toUpperCase() } })) };
+          }
+        })(),
+      };
+    });
+
+    const text = (await client.stream("gpt-4.1-mini", messages).finalResponse()).choices![0].message!.content;
+    expect(text).toBe("HELLO");
+    expect(chunks).toHaveLength(2);
+    expect(contexts[0]).toMatchObject({ endpoint: "/chat/completions", method: "POST", stream: true, attempt: 1 });
+  });
+
+  it("should cover the model endpoints", async () => {
+    const { fetch } = middlewareApi();
+    const contexts: ExnestMiddlewareContext[] = [];
+    const client = new ExnestAI({ apiKey: "test-key", fetch }).use(async (ctx, next) => {
+      contexts.push(ctx);
+      return next();
+    });
+
+    await client.getModels();
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0]).toMatchObject({ endpoint: "/models", method: "GET", stream: false, body: undefined });
+  });
+
+  it("should pass middleware errors to the caller without retrying or falling back", async () => {
+    const { fetch, requests } = middlewareApi();
+    let calls = 0;
+    const failure = new Error("blocked by policy");
+    const middleware = async () => {
+      calls++;
+      throw failure;
+    };
+
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 2, middleware: [middleware] });
+    await expect(client.chat("gpt-4.1-mini", messages)).rejects.toBe(failure);
+    expect(calls).toBe(1);
+
+    await expect(client.chat("gpt-4.1-mini", messages, { models: ["gpt-4.1", "claude-sonnet-4"] })).rejects.toBe(failure);
+    expect(calls).toBe(2);
+
+    await expect(client.stream("gpt-4.1-mini", messages).finalResponse()).rejects.toBe(failure);
+    expect(calls).toBe(3);
+
+    const throwing = new ExnestAI({ apiKey: "test-key", fetch, retries: 2, throwOnError: true, middleware: [middleware] });
+    await expect(throwing.chat("gpt-4.1-mini", messages)).rejects.toBe(failure);
+    expect(calls).toBe(4);
+    expect(requests).toHaveLength(0);
+  });
+});
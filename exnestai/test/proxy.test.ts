@@ -0,0 +1,134 @@
+import { describe, it, expect } from "bun:test";
+import { EventEmitter } from "events";
+import { toSSEResponse, pipeToNodeResponse } from "../proxy";
+import { parseSSEJson, readBodyChunks } from "../sse";
+import { InsufficientBalanceError } from "../errors";
+
+function chunks(tokens: string[], state = { closed: false }, failWith?: unknown) {
+  return (async function* () {
+    try {
+      for (const token of tokens) {
+        yield { choices: [{ index: 0, delta: { content: token }, finish_reason: null }] };
+      }
+      if (failWith) throw failWith;
+    } finally {
+      state.closed = true;
+    }
+  })();
+}
+
+class FakeResponse extends EventEmitter {
+  statusCode = 0;
+  headers: Record<string, string> = {};
+  headersSent = false;
+  writableEnded = false;
+  writableFinished = false;
+  destroyed = false;
+  body = "";
+  flushes = 0;
+
+  setHeader(name: string, value: string) { this.headers[name.toLowerCase()] = value; }
+  flushHeaders() { this.headersSent = true; }
+  flush() { this.flushes++; }
+  write(data: string) { this.body += data; return true; }
+  end() {
+    this.writableEnded = true;
+    this.writableFinished = true;
+    this.emit("close");
+  }
+}
+
+describe("Streaming proxy", () => {
+  it("should relay chunks as a Fetch SSE response that round-trips through the parser", async () => {
+    const response = toSSEResponse(chunks(["Hel", "lo"]), { headers: { "X-Request-Id": "abc" } });
+    expect(response.headers.get("content-type")).toContain("text/event-stream");
+    expect(response.headers.get("x-request-id")).toBe("abc");
+
+    const text = await response.text();
+    expect(text.endsWith("data: [DONE]\n\n")).toBe(true);
+
+    const received: any[] = [];
+    for await (const chunk of parseSSEJson<any>((async function* () { yield new TextEncoder().encode(text); })())) {
+      received.push(chunk.choices[0].delta.content);
+    }
+    expect(received).toEqual(["Hel", "lo"]);
+  });
+
+  it("should send failures as OpenAI-compatible error events", async () => {
+    const errors: unknown[] = [];
+    const response = toSSEResponse(
+      chunks(["Hi"], undefined, new InsufficientBalanceError("Top up", { status: 402 })),
+      { onError: error => { errors.push(error); } }
+    );
+
+    let caught: any = null;
+    try {
+      for await (const _ of parseSSEJson(readBodyChunks(response.body!))) {
+        // Drain
+      }
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(InsufficientBalanceError);
+    expect(caught.message).toBe("Top up");
+    expect(errors).toHaveLength(1);
+  });
+
+  it("should close the upstream stream when the client cancels", async () => {
+    const state = { closed: false };
+    const abortController = new AbortController();
+    const response = toSSEResponse(chunks(["a", "b", "c"], state), { abortController });
+
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(abortController.signal.aborted).toBe(true);
+    expect(state.closed).toBe(true);
+  });
+
+  it("should pipe to a Node.js response with headers, flushing and error events", async () => {
+    const res = new FakeResponse();
+    await pipeToNodeResponse(chunks(["x", "y"]), res as any);
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers["content-type"]).toContain("text/event-stream");
+    expect(res.headers["cache-control"]).toContain("no-cache");
+    expect(res.flushes).toBe(3);
+    expect(res.body.split("\n\n").filter(Boolean)).toHaveLength(3);
+    expect(res.writableEnded).toBe(true);
+
+    const failed = new FakeResponse();
+    await pipeToNodeResponse(chunks([], undefined, new Error("socket hang up")), failed as any);
+    expect(JSON.parse(failed.body.slice("data: ".length)).error.code).toBe("network_error");
+    expect(failed.body).not.toContain("[DONE]");
+  });
+
+  it("should abort upstream when the Node.js client disconnects", async () => {
+    const res = new FakeResponse();
+    const abortController = new AbortController();
+    let release: () => void = () => {};
+    const state = { closed: false };
+
+    async function* slow() {
+      try {
+        yield { choices: [] };
+        await new Promise<void>(resolve => { release = resolve; });
+        yield { choices: [] };
+      } finally {
+        state.closed = true;
+      }
+    }
+
+    const piping = pipeToNodeResponse(slow(), res as any, { abortController });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    res.emit("close");
+    expect(abortController.signal.aborted).toBe(true);
+
+    release();
+    await piping;
+    expect(state.closed).toBe(true);
+    expect(res.writableEnded).toBe(false);
+  });
+});
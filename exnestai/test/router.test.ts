@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { rankModels } from "../router";
+import { ModelNotFoundError } from "../errors";
+import { chatChunk, makeModel, mockApi, sseResponse, type MockRequest } from "./helpers";
+
+const price = (inputPrice: string, outputPrice: string, contextWindow: number) => ({
+  pricing: { inputPrice, outputPrice },
+  limits: { contextWindow },
+});
+
+const models = [
+  makeModel("openai:gpt-4o-mini", price("0.15", "0.6", 128000)),
+  makeModel("openai:gpt-3.5-turbo", price("0.5", "1.5", 16000)),
+  makeModel("anthropic:claude-3-haiku", price("0.25", "1.25", 200000)),
+  makeModel("google:gemini-flash", { ...price("0.05", "0.2", 1000000), capabilities: { streaming: false } }),
+  makeModel("mistral:tiny", { ...price("0.01", "0.01", 32000), isActive: false }),
+];
+
+function routerApi() {
+  return mockApi(({ path, body }) => {
+    if (path === "/models") {
+      return { success: true, data: models };
+    }
+    if (body.stream) {
+      return sseResponse([chatChunk("Hi", { model: body.model })]);
+    }
+    return { object: "chat.completion", model: body.model, choices: [] };
+  });
+}
+
+const chatBodies = (requests: MockRequest[]) => requests.filter(request => request.path !== "/models").map(request => request.body);
+
+const names = (list: { name: string }[]) => list.map(model => model.name);
+
+describe("Model router", () => {
+  it("should rank by strategy and skip inactive models", () => {
+    expect(names(rankModels(models as any))).toEqual([
+      "google:gemini-flash",
+      "openai:gpt-4o-mini",
+      "anthropic:claude-3-haiku",
+      "openai:gpt-3.5-turbo",
+    ]);
+    expect(names(rankModels(models as any, { strategy: "largest_context" }))[0]).toBe("google:gemini-flash");
+    expect(names(rankModels(models as any, {
+      strategy: "preferred",
+      preferred: ["anthropic:claude-3-haiku", "openai:gpt-3.5-turbo"],
+    }))).toEqual(["anthropic:claude-3-haiku", "openai:gpt-3.5-turbo", "google:gemini-flash", "openai:gpt-4o-mini"]);
+  });
+
+  it("should apply provider, price, context and capability constraints", () => {
+    expect(names(rankModels(models as any, { providers: ["openai"], minContextWindow: 100000 }))).toEqual(["openai:gpt-4o-mini"]);
+    expect(names(rankModels(models as any, { excludeProviders: ["google", "openai"] }))).toEqual(["anthropic:claude-3-haiku"]);
+    expect(names(rankModels(models as any, { maxOutputPrice: 1 }))).toEqual(["google:gemini-flash", "openai:gpt-4o-mini"]);
+    expect(names(rankModels(models as any, { capabilities: ["streaming"] }))[0]).toBe("openai:gpt-4o-mini");
+  });
+
+  it("should route chat(\"auto\") with client and per-call constraints", async () => {
+    const { fetch, requests } = routerApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch, routing: { minContextWindow: 100000 } });
+
+    await client.chat("auto", [{ role: "user", content: "Hello" }]);
+    expect(chatBodies(requests)[0].model).toBe("google:gemini-flash");
+
+    await client.chat("auto", [{ role: "user", content: "Hello" }], { routing: { excludeProviders: ["google"] } });
+    expect(chatBodies(requests)[1].model).toBe("openai:gpt-4o-mini");
+
+    const response = await client.stream("auto", [{ role: "user", content: "Hello" }]).finalResponse();
+    expect(response.choices?.[0]?.message?.content).toBe("Hi");
+    expect(chatBodies(requests)[2].model).toBe("openai:gpt-4o-mini");
+  });
+
+  it("should throw when no model matches", async () => {
+    const { fetch } = routerApi();
+    const client = new ExnestAI({ apiKey: "test-key", fetch });
+
+    let caught: any = null;
+    try {
+      await client.chat("auto", [{ role: "user", content: "Hello" }], { routing: { minContextWindow: 2000000 } });
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(ModelNotFoundError);
+    expect(caught.code).toBe("no_model_available");
+  });
+});
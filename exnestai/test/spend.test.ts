@@ -0,0 +1,129 @@
+import { describe, it, expect } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ExnestAI } from "../client.services";
+import { BudgetExceededError, FileSpendStore, SpendTracker } from "../spend";
+import { apiKeyId } from "../keys";
+import { chatChunk, chatReply, mockApi, sseResponse } from "./helpers";
+
+const billing = (cost: string) => ({
+  transaction_id: `tx_${cost}`,
+  actual_cost_usd: cost,
+  estimated_cost_usd: cost,
+  refund_amount_usd: "0",
+  wallet_currency: "IDR",
+  deducted_amount: String(Number(cost) * 16000),
+  exchange_rate: "16000",
+});
+
+function mockChat(cost: string) {
+  return mockApi(({ body }) => {
+    if (body.stream) {
+      return sseResponse([
+        chatChunk("Hi"),
+        { choices: [], usage: { prompt_tokens: 5, completion_tokens: 1, total_tokens: 6 }, exnest: { billing: billing(cost) } },
+      ]);
+    }
+    return chatReply("Hi", { usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 }, exnest: { billing: billing(cost) } });
+  });
+}
+
+describe("SpendTracker", () => {
+  it("should record streaming and non-streaming spend per model, key and tag", async () => {
+    const { fetch, requests } = mockChat("0.25");
+    const tracker = new SpendTracker();
+    const client = new ExnestAI({ apiKey: "sk-test-1234", fetch, spendTracker: tracker });
+
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }], { tags: ["search"] });
+    await client.stream("gpt-4.1-nano", [{ role: "user", content: "Hi" }], { tags: ["search", "beta"] }).finalResponse();
+
+    expect(requests[0].body.exnest_metadata).toBe(true);
+
+    const summary = await tracker.getSummary();
+    expect(summary.requests).toBe(2);
+    expect(summary.costUsd).toBeCloseTo(0.5);
+    expect(summary.totalTokens).toBe(18);
+    expect(summary.byModel["gpt-4.1-nano"].promptTokens).toBe(5);
+    expect(summary.byApiKey[apiKeyId("sk-test-1234")]).toMatchObject({ apiKey: "****1234", requests: 2 });
+    expect(summary.byTag.search.costUsd).toBeCloseTo(0.5);
+    expect(summary.byTag.beta.requests).toBe(1);
+    expect((await tracker.getSummary(new Date())).requests).toBe(2);
+  });
+
+  it("should keep keys with the same last four characters apart", async () => {
+    const { fetch } = mockChat("0.1");
+    const tracker = new SpendTracker();
+    const client = new ExnestAI({ apiKeys: ["sk-team-a-1234", "sk-team-b-1234"], fetch, spendTracker: tracker });
+
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+
+    const { byApiKey } = await tracker.getSummary();
+    expect(Object.keys(byApiKey).sort()).toEqual([apiKeyId("sk-team-a-1234"), apiKeyId("sk-team-b-1234")].sort());
+    expect(Object.values(byApiKey).map(totals => [totals.apiKey, totals.requests])).toEqual([["****1234", 1], ["****1234", 1]]);
+    expect(JSON.stringify(byApiKey)).not.toContain("team");
+  });
+
+  it("should record the model middleware actually sent", async () => {
+    const { fetch } = mockChat("0.1");
+    const tracker = new SpendTracker();
+    const client = new ExnestAI({ apiKey: "sk-test-1234", fetch, spendTracker: tracker }).use((ctx, next) => {
+      ctx.body = { ...ctx.body, model: "gpt-4.1-nano" };
+      return next();
+    });
+
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    await client.stream("gpt-4.1-mini", [{ role: "user", content: "Hi" }]).finalResponse();
+
+    const { byModel, byApiKey } = await tracker.getSummary();
+    expect(Object.keys(byModel)).toEqual(["gpt-4.1-nano"]);
+    expect(byModel["gpt-4.1-nano"].requests).toBe(2);
+    expect(byApiKey[apiKeyId("sk-test-1234")].requests).toBe(2);
+  });
+
+  it("should fire onBudgetExceeded and refuse requests once a budget is spent", async () => {
+    const { fetch, requests } = mockChat("0.6");
+    const exceeded: any[] = [];
+    const tracker = new SpendTracker({
+      budget: { daily: 1 },
+      onBudgetExceeded: info => { exceeded.push(info); },
+    });
+    const client = new ExnestAI({ apiKey: "sk-test-1234", fetch, spendTracker: tracker });
+
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    expect(exceeded).toHaveLength(0);
+    await client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    expect(exceeded).toEqual([expect.objectContaining({ period: "daily", limit: 1 })]);
+
+    await expect(client.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }])).rejects.toBeInstanceOf(BudgetExceededError);
+    expect(requests).toHaveLength(2);
+
+    const notifying = new ExnestAI({
+      apiKey: "sk-test-1234",
+      fetch,
+      spendTracker: new SpendTracker({ budget: { total: 0.1 }, enforce: "notify" }),
+    });
+    await notifying.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    await notifying.chat("gpt-4.1-mini", [{ role: "user", content: "Hi" }]);
+    expect(requests).toHaveLength(4);
+  });
+
+  it("should persist records in a file store", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "exnest-spend-"));
+    try {
+      const path = join(dir, "spend.jsonl");
+      const first = new SpendTracker({ store: new FileSpendStore(path) });
+      await first.recordResponse(
+        { usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 }, exnest: { billing: billing("0.5") } },
+        { model: "gpt-4.1-mini", apiKey: "****1234" }
+      );
+
+      const second = new SpendTracker({ store: new FileSpendStore(path), budget: { total: 0.5 } });
+      expect((await second.getSummary()).costUsd).toBeCloseTo(0.5);
+      await expect(second.checkBudget()).rejects.toBeInstanceOf(BudgetExceededError);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "bun:test";
+import { SSEDecoder, parseSSEJson } from "../sse";
+import { ExnestAI as ExnestWrapper } from "../wrapper.services";
+import { ExnestAI } from "../client.services";
+import { RateLimitError, StreamError } from "../errors";
+
+const encoder = new TextEncoder();
+async function* bytes(parts: string[]): AsyncGenerator<Uint8Array, void, unknown> {
+  for (const part of parts) {
+    yield encoder.encode(part);
+  }
+}
+
+function sseResponse(parts: string[]): Response {
+  return new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        parts.forEach(part => controller.enqueue(encoder.encode(part)));
+        controller.close();
+      },
+    }),
+    { headers: { "Content-Type": "text/event-stream" } }
+  );
+}
+
+describe("SSE parser", () => {
+  it("should decode events across chunk boundaries and line endings", () => {
+    const decoder = new SSEDecoder();
+    const events = [
+      ...decoder.decode(": keep-alive\r"),
+      ...decoder.decode("\ndata:first\r"),
+      ...decoder.decode("\ndata: second\r\n\r\nevent: custom\nid: 7\nretry: 1500\ndata: x\r\r"),
+      ...decoder.decode("data: tail"),
+      ...decoder.flush(),
+    ];
+
+    expect(events).toEqual([
+      { event: "message", data: "first\nsecond" },
+      { event: "custom", data: "x", id: "7", retry: 1500 },
+      { event: "message", data: "tail", id: "7", retry: 1500 },
+    ]);
+  });
+
+  it("should parse JSON events, stop at [DONE] and throw on error events", async () => {
+    const parseErrors: string[] = [];
+    const chunks: any[] = [];
+    for await (const chunk of parseSSEJson(bytes(['data: {"a":', '1}\n\ndata: oops\n\n', "data: [DONE]\n\ndata: {\"a\":2}\n\n"]), {
+      onParseError: (_error, data) => { parseErrors.push(data); },
+    })) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([{ a: 1 }]);
+    expect(parseErrors).toEqual(["oops"]);
+
+    let caught: any = null;
+    try {
+      for await (const _ of parseSSEJson(bytes(['event: error\ndata: {"error":{"message":"Slow down","code":"rate_limit_exceeded"}}\n\n']))) {
+        // Drain
+      }
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(RateLimitError);
+    expect(caught.message).toBe("Slow down");
+
+    caught = null;
+    try {
+      for await (const _ of parseSSEJson(bytes(["event: error\ndata: upstream closed\n\n"]))) {
+        // Drain
+      }
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(StreamError);
+  });
+
+  it("should stream typed completion chunks from both clients", async () => {
+    const parts = [
+      'data: {"id":"cmpl-1","object":"text_completion","created":1,"model":"m","choices":[{"index":0,"text":"Hel","finish_reason":null}]}\r\n\r\n',
+      'data: {"id":"cmpl-1","object":"text_completion","created":1,"model":"m","choices":[{"index":0,"text":"lo","finish_reason":"stop"}]}\r\n\r\n',
+      "data: [DONE]\r\n\r\n",
+    ];
+    const fetch = async () => sseResponse(parts);
+
+    let text = "";
+    for await (const chunk of new ExnestWrapper("test-key", undefined, { fetch }).streamCompletion("m", "Say hello")) {
+      text += chunk.choices[0]?.text || "";
+    }
+    expect(text).toBe("Hello");
+
+    text = "";
+    for await (const chunk of new ExnestAI({ apiKey: "test-key", fetch }).streamCompletion("m", "Say hello")) {
+      text += chunk.choices[0]?.text || "";
+    }
+    expect(text).toBe("Hello");
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestChatStream } from "../stream";
+import type { ExnestStreamChunk } from "../client.services";
+
+function fakeStream(tokens: string[], state = { closed: false, pulls: 0 }) {
+  async function* source(): AsyncGenerator<ExnestStreamChunk, void, unknown> {
+    try {
+      for (const [i, token] of tokens.entries()) {
+        state.pulls++;
+        yield {
+          id: "chatcmpl-1",
+          object: "chat.completion.chunk",
+          created: 1700000000,
+          model: "gpt-4.1-mini",
+          choices: [{ index: 0, delta: { content: token }, finish_reason: i === tokens.length - 1 ? "stop" : null }],
+        };
+      }
+    } finally {
+      state.closed = true;
+    }
+  }
+  return new ExnestChatStream(source());
+}
+
+describe("ExnestChatStream", () => {
+  it("should expose a text stream and a final response", async () => {
+    const stream = fakeStream(["Hel", "lo", "!"]);
+    const first = await stream.next();
+    expect(first.value?.choices[0].delta.content).toBe("Hel");
+
+    const response = await stream.finalResponse();
+    expect(response.choices?.[0]?.message?.content).toBe("Hello!");
+    expect(response.choices?.[0]?.finish_reason).toBe("stop");
+
+    const tokens: string[] = [];
+    for await (const token of fakeStream(["a", "b"]).textStream) {
+      tokens.push(token);
+    }
+    expect(tokens).toEqual(["a", "b"]);
+  });
+
+  it("should consume the stream with callbacks", async () => {
+    const tokens: string[] = [];
+    let chunks = 0;
+    let done: any = null;
+
+    const response = await fakeStream(["x", "y"]).consume({
+      onChunk: () => { chunks++; },
+      onToken: token => { tokens.push(token); },
+      onDone: result => { done = result; },
+    });
+
+    expect(chunks).toBe(2);
+    expect(tokens).toEqual(["x", "y"]);
+    expect(done).toBe(response);
+
+    async function* failing(): AsyncGenerator<ExnestStreamChunk, void, unknown> {
+      throw new Error("boom");
+    }
+    let caught: any = null;
+    const result = await new ExnestChatStream(failing()).consume({ onError: error => { caught = error; } });
+    expect(result).toBeUndefined();
+    expect(caught.message).toBe("boom");
+  });
+
+  it("should convert to Web and Node streams", async () => {
+    const reader = fakeStream(["a", "b"]).toReadableStream().getReader();
+    const contents: string[] = [];
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      contents.push(value.choices[0].delta.content!);
+    }
+    expect(contents).toEqual(["a", "b"]);
+
+    const state = { closed: false, pulls: 0 };
+    const cancelled = fakeStream(["a", "b", "c"], state).toReadableStream().getReader();
+    await cancelled.read();
+    await cancelled.cancel();
+    expect(state.closed).toBe(true);
+
+    const nodeChunks: ExnestStreamChunk[] = [];
+    for await (const chunk of fakeStream(["n", "o"]).toNodeReadable()) {
+      nodeChunks.push(chunk);
+    }
+    expect(nodeChunks.length).toBe(2);
+  });
+
+  it("should tee one upstream stream to several consumers", async () => {
+    const state = { closed: false, pulls: 0 };
+    const stream = fakeStream(["a", "b", "c"], state);
+    const [ui, logger] = stream.tee();
+
+    const [uiText, loggerResponse] = await Promise.all([
+      (async () => {
+        let text = "";
+        for await (const token of ui.textStream) text += token;
+        return text;
+      })(),
+      logger.finalResponse(),
+    ]);
+
+    expect(uiText).toBe("abc");
+    expect(loggerResponse.choices?.[0]?.message?.content).toBe("abc");
+    expect(state.pulls).toBe(3);
+    await expect(stream.next()).rejects.toThrow("Stream has been teed");
+  });
+});
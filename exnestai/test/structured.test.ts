@@ -0,0 +1,83 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { ExnestStructuredOutputError, validateJsonSchema } from "../structured";
+import { chatReply, mockApi } from "./helpers";
+
+function mockContents(contents: string[]) {
+  return mockApi(() => chatReply(contents.shift()!));
+}
+
+const personSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    age: { type: "integer", minimum: 0 },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+};
+
+describe("ExnestAI chatStructured", () => {
+  it("should send json_schema and return the parsed object", async () => {
+    const { fetch, requests } = mockContents(["```json\n{\"name\":\"Ada\",\"age\":36}\n```"]);
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const result = await client.chatStructured<{ name: string; age: number }>(
+      "openai:gpt-4o",
+      [{ role: "user", content: "Who wrote the first program?" }],
+      { schema: personSchema, schemaName: "person" }
+    );
+
+    expect(result.data).toEqual({ name: "Ada", age: 36 });
+    expect(result.attempts).toBe(1);
+    expect(requests[0].body.response_format.type).toBe("json_schema");
+    expect(requests[0].body.response_format.json_schema.name).toBe("person");
+  });
+
+  it("should re-ask the model with the validation error", async () => {
+    const { fetch, requests } = mockContents(["{\"name\":\"Ada\"}", "{\"name\":\"Ada\",\"age\":36}"]);
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const result = await client.chatStructured("openai:gpt-4o", [{ role: "user", content: "Person?" }], {
+      schema: personSchema,
+      maxRepairs: 1,
+    });
+
+    expect(result.attempts).toBe(2);
+    expect(requests[1].body.messages[2].content).toContain("$.age is required");
+  });
+
+  it("should throw on malformed JSON and validator failures", async () => {
+    const { fetch } = mockContents(["not json", "{\"ok\":false}"]);
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    await expect(client.chatStructured("openai:gpt-4o", [{ role: "user", content: "?" }]))
+      .rejects.toBeInstanceOf(ExnestStructuredOutputError);
+
+    const validate = (value: any) => {
+      if (!value.ok) throw new Error("ok must be true");
+      return value as { ok: true };
+    };
+    await expect(client.chatStructured("openai:gpt-4o", [{ role: "user", content: "?" }], { validate }))
+      .rejects.toThrow("Structured output validation failed: ok must be true");
+  });
+
+  it("should report JSON schema errors with paths", () => {
+    expect(validateJsonSchema({ name: 1, age: -1, extra: true }, personSchema)).toEqual([
+      "$.name must be of type string",
+      "$.age must be >= 0",
+      "$.extra is not allowed",
+    ]);
+  });
+
+  it("should require exactly one oneOf match and any anyOf match", () => {
+    const oneOf = { oneOf: [{ type: "number" }, { type: "integer" }] };
+    expect(validateJsonSchema(1.5, oneOf)).toEqual([]);
+    expect(validateJsonSchema(2, oneOf)).toEqual(["$ matches 2 schemas but must match exactly one"]);
+    expect(validateJsonSchema("2", oneOf)).toEqual(["$ does not match any allowed schema"]);
+
+    expect(validateJsonSchema(2, { anyOf: [{ type: "number" }, { type: "integer" }] })).toEqual([]);
+    expect(validateJsonSchema(2, { anyOf: [{ type: "number" }], oneOf: [{ type: "string" }] }))
+      .toEqual(["$ does not match any allowed schema"]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { HeuristicTokenCounter, createTokenCounter } from "../tokens";
+import { InvalidRequestError } from "../errors";
+import { mockApi } from "./helpers";
+
+function tokensApi(limits: { contextWindow: number; maxTokens: number }) {
+  return mockApi(({ url }) => (url.includes("/models/") ? { data: { limits } } : { object: "chat.completion", choices: [] }));
+}
+
+describe("Token counting and preflight", () => {
+  it("should count messages with per-message overhead and custom tokenizers", () => {
+    const heuristic = new HeuristicTokenCounter();
+    expect(heuristic.countText("12345678")).toBe(2);
+    expect(heuristic.countMessages([])).toBe(0);
+    expect(heuristic.countMessages([{ role: "user", content: "12345678" }])).toBe(3 + 4 + 2);
+    expect(heuristic.countMessages([
+      { role: "user", content: [{ type: "text", text: "1234" }, { type: "image_url", image_url: { url: "https://x/y.png" } }] },
+    ])).toBeGreaterThan(85);
+
+    const words = createTokenCounter(text => text.split(/\s+/).filter(Boolean).length, { messageOverhead: 1, replyOverhead: 0 });
+    expect(words.countMessages([{ role: "system", content: "one two" }, { role: "user", content: "three" }])).toBe(5);
+
+    const client = new ExnestAI({ apiKey: "test-key", tokenCounter: words });
+    expect(client.countTokens("a b c")).toBe(3);
+  });
+
+  it("should reject oversized requests before sending them", async () => {
+    const { fetch, requests } = tokensApi({ contextWindow: 100, maxTokens: 50 });
+    const client = new ExnestAI({ apiKey: "test-key", fetch, preflight: "reject" });
+
+    await expect(client.chat("gpt-4.1-mini", [{ role: "user", content: "hi" }], { maxTokens: 80 }))
+      .rejects.toBeInstanceOf(InvalidRequestError);
+
+    let caught: any = null;
+    try {
+      await client.completion("gpt-4.1-mini", "x".repeat(400), { maxTokens: 10 });
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught?.code).toBe("context_length_exceeded");
+    expect(requests.filter(request => !request.url.includes("/models/"))).toHaveLength(0);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("should truncate old turns and clamp maxTokens", async () => {
+    const { fetch, requests } = tokensApi({ contextWindow: 100, maxTokens: 50 });
+    const client = new ExnestAI({ apiKey: "test-key", fetch });
+
+    await client.chat("gpt-4.1-mini", [
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "a".repeat(160) },
+      { role: "assistant", content: "b".repeat(160) },
+      { role: "user", content: "Latest question" },
+    ], { maxTokens: 80, preflight: "truncate" });
+
+    const body = requests[requests.length - 1].body;
+    expect(body.messages.map((message: any) => message.content)).toEqual(["Be brief.", "Latest question"]);
+    expect(body.max_tokens).toBe(50);
+  });
+});
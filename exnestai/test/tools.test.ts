@@ -0,0 +1,106 @@
+import { describe, it, expect } from "bun:test";
+import { ExnestAI } from "../client.services";
+import { mockApi, sseResponse } from "./helpers";
+
+// Answers each request with the next response, in order
+function mockChatResponses(responses: any[]) {
+  return mockApi(() => responses.shift());
+}
+
+function toolCallResponse(calls: Array<{ id: string; name: string; args: any }>) {
+  return {
+    object: "chat.completion",
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: null,
+        tool_calls: calls.map(call => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      },
+      finish_reason: "tool_calls",
+    }],
+  };
+}
+
+describe("ExnestAI runTools", () => {
+  it("should execute tool calls until the model answers", async () => {
+    const { fetch, requests } = mockChatResponses([
+      toolCallResponse([
+        { id: "call_1", name: "add", args: { a: 1, b: 2 } },
+        { id: "call_2", name: "add", args: { a: 3, b: 4 } },
+      ]),
+      { object: "chat.completion", choices: [{ index: 0, message: { role: "assistant", content: "3 and 7" }, finish_reason: "stop" }] },
+    ]);
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const result = await client.runTools("openai:gpt-4", [{ role: "user", content: "Add things" }], {
+      tools: {
+        add: {
+          schema: { type: "object", properties: { a: { type: "number" }, b: { type: "number" } } },
+          handler: async ({ a, b }) => a + b,
+        },
+      },
+    });
+
+    expect(result.stopReason).toBe("completed");
+    expect(result.steps).toBe(2);
+    expect(result.response.choices?.[0]?.message?.content).toBe("3 and 7");
+    expect(requests[0].body.tools[0].function.name).toBe("add");
+    expect(requests[1].body.messages.slice(-2)).toEqual([
+      { role: "tool", tool_call_id: "call_1", content: "3" },
+      { role: "tool", tool_call_id: "call_2", content: "7" },
+    ]);
+  });
+
+  it("should stop at maxSteps and report handler errors to the model", async () => {
+    const { fetch, requests } = mockChatResponses([
+      toolCallResponse([{ id: "call_1", name: "fail", args: {} }]),
+      toolCallResponse([{ id: "call_2", name: "missing", args: {} }]),
+    ]);
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const result = await client.runTools("openai:gpt-4", [{ role: "user", content: "Go" }], {
+      maxSteps: 2,
+      tools: {
+        fail: { handler: () => { throw new Error("boom"); } },
+      },
+    });
+
+    expect(result.stopReason).toBe("max_steps");
+    expect(requests.length).toBe(2);
+    expect(requests[1].body.messages[2].content).toBe(JSON.stringify({ error: "boom" }));
+    expect(result.messages[result.messages.length - 1].content).toBe(JSON.stringify({ error: "Unknown tool: missing" }));
+  });
+
+  it("should treat prototype names as unknown tools and stop with an error on an empty response", async () => {
+    const { fetch } = mockChatResponses([
+      toolCallResponse([
+        { id: "call_1", name: "constructor", args: {} },
+        { id: "call_2", name: "toString", args: {} },
+      ]),
+      { object: "chat.completion", choices: [] },
+    ]);
+    const client = new ExnestAI({ apiKey: "test-key", fetch, retries: 0 });
+
+    const result = await client.runTools("openai:gpt-4", [{ role: "user", content: "Go" }], { tools: {} });
+
+    expect(result.stopReason).toBe("error");
+    expect(result.steps).toBe(2);
+    expect(result.messages.slice(-2).map(message => message.content)).toEqual([
+      JSON.stringify({ error: "Unknown tool: constructor" }),
+      JSON.stringify({ error: "Unknown tool: toString" }),
+    ]);
+
+    const { fetch: streamFetch } = mockApi(() => sseResponse([]));
+    const streamClient = new ExnestAI({ apiKey: "test-key", fetch: streamFetch, retries: 0 });
+    const events: any[] = [];
+    for await (const event of streamClient.streamTools("openai:gpt-4", [{ role: "user", content: "Go" }], { tools: {} })) {
+      events.push(event);
+    }
+    expect(events).toEqual([{ type: "done", messages: [{ role: "user", content: "Go" }], steps: 1, stopReason: "error" }]);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, afterEach } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { ExnestAI } from "../client.services";
+import { ExnestAI as ExnestWrapper } from "../wrapper.services";
+import { SDK_VERSION, buildUserAgent, type ExnestFetch } from "../transport";
+
+const originalFetch = globalThis.fetch;
+
+function createTransport() {
+  const calls: Array<{ url: string; headers: Record<string, string> }> = [];
+  const transport: ExnestFetch = async (url, init) => {
+    calls.push({ url, headers: init.headers as Record<string, string> });
+    const body = init.body ? JSON.parse(init.body as string) : {};
+    if (body.stream) {
+      const encoder = new TextEncoder();
+      return new Response(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(encoder.encode('data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\ndata: [DONE]\n\n'));
+            controller.close();
+          },
+        }),
+        { headers: { "Content-Type": "text/event-stream" } }
+      );
+    }
+    if (url.endsWith("/models")) {
+      return new Response(JSON.stringify({ success: true, data: [] }));
+    }
+    return new Response(JSON.stringify({ object: "chat.completion", choices: [{ index: 0, message: { role: "assistant", content: "Hi" } }] }));
+  };
+  return { calls, transport };
+}
+
+const messages = [{ role: "user" as const, content: "Hello" }];
+
+describe("Transport", () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should send every client request through the injected fetch", async () => {
+    globalThis.fetch = (async () => {
+      throw new Error("global fetch must not be used");
+    }) as any;
+    const { calls, transport } = createTransport();
+    const client = new ExnestAI({
+      apiKey: "test-key",
+      throwOnError: true,
+      fetch: transport,
+      headers: { "X-Team": "evals", "Authorization": "ignored" },
+      userAgent: "my-app/2.0.0",
+    });
+
+    await client.chat("gpt-4.1-mini", messages);
+    await client.stream("gpt-4.1-mini", messages).finalResponse();
+    await client.getModels();
+
+    expect(calls.map(call => call.url.replace("https://api.exnest.app/v1", ""))).toEqual(["/chat/completions", "/chat/completions", "/models"]);
+    for (const { headers } of calls) {
+      expect(headers["User-Agent"]).toBe(`ExnestAI-Client/${SDK_VERSION} my-app/2.0.0`);
+      expect(headers["X-Team"]).toBe("evals");
+      expect(headers["Authorization"]).toBe("Bearer test-key");
+    }
+    expect(calls[1].headers["Accept"]).toBe("text/event-stream");
+  });
+
+  it("should use the injected fetch in the wrapper", async () => {
+    const { calls, transport } = createTransport();
+    const wrapper = new ExnestWrapper("test-key", "https://proxy.internal/v1", { fetch: transport, headers: { "X-Team": "evals" } });
+
+    await wrapper.chat("gpt-4.1-mini", messages);
+    for await (const chunk of wrapper.stream("gpt-4.1-mini", messages)) {
+      expect(chunk.choices[0].delta.content).toBe("Hi");
+    }
+
+    expect(calls.map(call => call.url)).toEqual(["https://proxy.internal/v1/chat/completions", "https://proxy.internal/v1/chat/completions"]);
+    expect(calls[0].headers).toMatchObject({ "User-Agent": buildUserAgent(), "X-Team": "evals", "Authorization": "Bearer test-key" });
+  });
+
+  it("should keep SDK_VERSION equal to the package.json version", () => {
+    const pkg = JSON.parse(readFileSync(join(import.meta.dir, "..", "..", "package.json"), "utf8"));
+    expect(SDK_VERSION).toBe(pkg.version);
+  });
+
+  it("should report the SDK version in the User-Agent", () => {
+    expect(new ExnestAI({ apiKey: "test-key" }).getConfig().userAgent).toBe(`ExnestAI-Client/${SDK_VERSION}`);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * ExnestAI Token Counting
+ * Local prompt size estimation and context-limit preflight checks
+ */
+
+import type { ExnestMessage, ExnestModel } from "./client.services";
+import { InvalidRequestError } from "./errors";
+
+export interface TokenCounter {
+  countText(text: string, model?: string): number;
+  countMessages(messages: ExnestMessage[], model?: string): number;  // Including per-message overhead
+}
+
+export interface ExnestTokenCounterOptions {
+  messageOverhead?: number;  // Tokens added per message for role and separators (default: 4)
+  replyOverhead?: number;    // Tokens that prime the assistant reply (default: 3)
+  imageTokens?: number;      // Tokens counted per image or file part (default: 85)
+}
+
+// What to do when prompt plus maxTokens exceeds the model limits
+export type ExnestPreflightMode = "off" | "reject" | "truncate";
+
+export type ExnestModelLimits = ExnestModel["limits"];
+
+export interface ExnestPreflightInput {
+  model: string;
+  messages?: ExnestMessage[];  // Chat requests
+  prompt?: string;             // Completion requests
+  maxTokens?: number;
+  limits: Partial<ExnestModelLimits>;
+  mode: Exclude<ExnestPreflightMode, "off">;
+  counter: TokenCounter;
+}
+
+export interface ExnestPreflightResult {
+  messages?: ExnestMessage[];
+  maxTokens?: number;
+  promptTokens: number;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Build a TokenCounter from a text tokenizer, adding the chat message overhead
+ * @param countText - Returns the token count of a text, e.g. `text => encoding.encode(text).length`
+ * @param options - Overhead settings
+ */
+export function createTokenCounter(
+  countText: (text: string, model?: string) => number,
+  options: ExnestTokenCounterOptions = {}
+): TokenCounter {
+  const { messageOverhead = 4, replyOverhead = 3, imageTokens = 85 } = options;
+
+  return {
+    countText,
+    countMessages(messages, model) {
+      if (messages.length === 0) {
+        return 0;
+      }
+      return messages.reduce((total, message) => {
+        let tokens = messageOverhead + countText(contentToText(message.content), model);
+        if (message.name) {
+          tokens += countText(message.name, model) + 1;
+        }
+        if (Array.isArray(message.content)) {
+          tokens += message.content.filter(part => part.type !== "text").length * imageTokens;
+        }
+        for (const toolCall of message.tool_calls || []) {
+          tokens += countText(toolCall.function.name, model) + countText(toolCall.function.arguments, model);
+        }
+        return total + tokens;
+      }, replyOverhead);
+    },
+  };
+}
+
+/**
+ * Built-in counter estimating about 4 characters per token.
+ * It is usually within 10-20% for English text; plug in a real tokenizer with createTokenCounter().
+ */
+export class HeuristicTokenCounter implements TokenCounter {
+  private readonly counter: TokenCounter;
+
+  constructor(options: ExnestTokenCounterOptions = {}) {
+    this.counter = createTokenCounter(text => Math.ceil(text.length / CHARS_PER_TOKEN), options);
+  }
+
+  countText(text: string, model?: string): number {
+    return this.counter.countText(text, model);
+  }
+
+  countMessages(messages: ExnestMessage[], model?: string): number {
+    return this.counter.countMessages(messages, model);
+  }
+}
+
+/**
+ * Check prompt plus maxTokens against the model limits
+ *
+ * "reject" throws an InvalidRequestError. "truncate" clamps maxTokens to the limits and, for
+ * chat requests, drops the oldest turns (keeping leading system messages and the latest turn).
+ * @throws InvalidRequestError when the request cannot fit
+ */
+export function applyContextPreflight(input: ExnestPreflightInput): ExnestPreflightResult {
+  const { model, limits, mode, counter } = input;
+  let messages = input.messages;
+  let maxTokens = input.maxTokens;
+  const countPrompt = () =>
+    messages ? counter.countMessages(messages, model) : counter.countText(input.prompt || "", model);
+
+  if (limits.maxTokens && maxTokens !== undefined && maxTokens > limits.maxTokens) {
+    if (mode === "reject") {
+      throw new InvalidRequestError(
+        `maxTokens (${maxTokens}) exceeds the maximum output tokens of ${model} (${limits.maxTokens})`,
+        { code: "max_tokens_exceeded" }
+      );
+    }
+    maxTokens = limits.maxTokens;
+  }
+
+  let promptTokens = countPrompt();
+  const contextWindow = limits.contextWindow;
+  if (!contextWindow || promptTokens + (maxTokens || 0) <= contextWindow) {
+    return { messages, maxTokens, promptTokens };
+  }
+
+  if (mode === "reject") {
+    throw new InvalidRequestError(
+      `Prompt (~${promptTokens} tokens) plus maxTokens (${maxTokens || 0}) exceeds the context window of ${model} (${contextWindow})`,
+      { code: "context_length_exceeded" }
+    );
+  }
+
+  if (messages) {
+    const pinned = messages.findIndex(message => message.role !== "system");
+    const system = pinned === -1 ? messages : messages.slice(0, pinned);
+    const turns = splitTurns(messages.slice(system.length));
+    while (turns.length > 1 && promptTokens + (maxTokens || 0) > contextWindow) {
+      turns.shift();
+      messages = [...system, ...turns.flat()];
+      promptTokens = countPrompt();
+    }
+  }
+
+  if (promptTokens >= contextWindow) {
+    throw new InvalidRequestError(
+      `Prompt (~${promptTokens} tokens) does not fit the context window of ${model} (${contextWindow})`,
+      { code: "context_length_exceeded" }
+    );
+  }
+  if (maxTokens !== undefined && promptTokens + maxTokens > contextWindow) {
+    maxTokens = contextWindow - promptTokens;
+  }
+
+  return { messages, maxTokens, promptTokens };
+}
+
+/**
+ * Group messages into turns starting at each user message, so tool calls and
+ * their results always stay together
+ */
+export function splitTurns(messages: ExnestMessage[]): ExnestMessage[][] {
+  const turns: ExnestMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === "user" || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+  return turns;
+}
+
+/**
+ * Plain text of a message content, with placeholders for non-text parts
+ */
+export function contentToText(content: ExnestMessage["content"]): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  if (!content) {
+    return "";
+  }
+  return content.map(part => (part.type === "text" ? part.text : `[${part.type}]`)).join("\n");
+}
@@ -0,0 +1,229 @@
+/**
+ * ExnestAI Tool Runner
+ * Automatic tool-execution loop built on top of the advanced client
+ */
+
+import type {
+  ExnestAI,
+  ExnestChatOptions,
+  ExnestChatResponse,
+  ExnestMessage,
+  ExnestToolCall,
+  ExnestToolDefinition,
+} from "./client.services";
+import { ChatStreamAccumulator } from "./accumulator";
+
+export interface ExnestToolContext {
+  toolCall: ExnestToolCall;
+  messages: ExnestMessage[];  // Conversation so far, including the assistant tool call message
+  step: number;
+}
+
+export interface ExnestTool<TArgs = any> {
+  description?: string;
+  schema?: Record<string, any>;  // JSON Schema of the function arguments
+  strict?: boolean;
+  handler: (args: TArgs, context: ExnestToolContext) => unknown | Promise<unknown>;
+}
+
+export interface ExnestRunToolsOptions extends Omit<ExnestChatOptions, "tools" | "stream"> {
+  tools: Record<string, ExnestTool>;
+  maxSteps?: number;  // Maximum number of model calls (default: 10)
+}
+
+export interface ExnestToolResult {
+  toolCall: ExnestToolCall;
+  content: string;  // Serialized result sent back to the model
+  error?: string;   // Set when the handler failed or the tool is unknown
+}
+
+export interface ExnestRunToolsResult {
+  response: ExnestChatResponse;  // Last response returned by the model
+  messages: ExnestMessage[];     // Full conversation including tool calls and results
+  steps: number;
+  stopReason: "completed" | "max_steps" | "error";
+}
+
+export type ExnestToolStreamEvent =
+  | { type: "text"; step: number; content: string }
+  | { type: "tool_call"; step: number; toolCall: ExnestToolCall }
+  | { type: "tool_result"; step: number; result: ExnestToolResult }
+  | { type: "done"; messages: ExnestMessage[]; steps: number; stopReason: "completed" | "max_steps" | "error" };
+
+const DEFAULT_MAX_STEPS = 10;
+
+/**
+ * Run a chat completion and execute requested tools until the model stops calling them
+ * @param client - Advanced client used for the chat calls
+ * @param model - Model identifier
+ * @param messages - Initial chat messages (not mutated)
+ * @param options - Tools with handlers, step limit and regular chat options
+ * @returns Promise<ExnestRunToolsResult>
+ */
+export async function runTools(
+  client: ExnestAI,
+  model: string,
+  messages: ExnestMessage[],
+  options: ExnestRunToolsOptions
+): Promise<ExnestRunToolsResult> {
+  const { tools, maxSteps = DEFAULT_MAX_STEPS, ...chatOptions } = options;
+  const definitions = toToolDefinitions(tools);
+  const history = [...messages];
+
+  let response: ExnestChatResponse = {};
+  let steps = 0;
+
+  while (steps < maxSteps) {
+    steps++;
+    response = await client.chat(model, history, { ...chatOptions, tools: definitions });
+
+    if (response.error) {
+      return { response, messages: history, steps, stopReason: "error" };
+    }
+
+    // An empty response (e.g. an error body with throwOnError off) ends the loop
+    const message = response.choices?.[0]?.message;
+    if (!message) {
+      return { response, messages: history, steps, stopReason: "error" };
+    }
+
+    history.push({
+      role: "assistant",
+      content: message.content ?? null,
+      ...(message.tool_calls?.length ? { tool_calls: message.tool_calls } : {}),
+    });
+
+    if (!message.tool_calls?.length) {
+      return { response, messages: history, steps, stopReason: "completed" };
+    }
+
+    const results = await executeToolCalls(tools, message.tool_calls, history, steps);
+    history.push(...results.map(toToolMessage));
+  }
+
+  return { response, messages: history, steps, stopReason: "max_steps" };
+}
+
+/**
+ * Streaming variant of runTools, emitting text deltas and tool events as they happen
+ * @param client - Advanced client used for the streaming calls
+ * @param model - Model identifier
+ * @param messages - Initial chat messages (not mutated)
+ * @param options - Tools with handlers, step limit and regular chat options
+ * @returns AsyncGenerator<ExnestToolStreamEvent>
+ */
+export async function* streamTools(
+  client: ExnestAI,
+  model: string,
+  messages: ExnestMessage[],
+  options: ExnestRunToolsOptions
+): AsyncGenerator<ExnestToolStreamEvent, void, unknown> {
+  const { tools, maxSteps = DEFAULT_MAX_STEPS, ...chatOptions } = options;
+  const definitions = toToolDefinitions(tools);
+  const history = [...messages];
+
+  let steps = 0;
+
+  while (steps < maxSteps) {
+    steps++;
+
+    const accumulator = new ChatStreamAccumulator();
+
+    for await (const chunk of client.stream(model, history, { ...chatOptions, tools: definitions })) {
+      accumulator.add(chunk);
+
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield { type: "text", step: steps, content };
+      }
+    }
+
+    const message = accumulator.toResponse().choices?.[0]?.message;
+    if (!message) {
+      yield { type: "done", messages: history, steps, stopReason: "error" };
+      return;
+    }
+    const toolCalls = message.tool_calls || [];
+
+    history.push({
+      role: "assistant",
+      content: message.content || null,
+      ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+    });
+
+    if (!toolCalls.length) {
+      yield { type: "done", messages: history, steps, stopReason: "completed" };
+      return;
+    }
+
+    for (const toolCall of toolCalls) {
+      yield { type: "tool_call", step: steps, toolCall };
+    }
+
+    const results = await executeToolCalls(tools, toolCalls, history, steps);
+    for (const result of results) {
+      history.push(toToolMessage(result));
+      yield { type: "tool_result", step: steps, result };
+    }
+  }
+
+  yield { type: "done", messages: history, steps, stopReason: "max_steps" };
+}
+
+/**
+ * Convert the tool map into OpenAI-compatible tool definitions
+ */
+function toToolDefinitions(tools: Record<string, ExnestTool>): ExnestToolDefinition[] {
+  return Object.entries(tools).map(([name, tool]) => ({
+    type: "function",
+    function: {
+      name,
+      ...(tool.description !== undefined ? { description: tool.description } : {}),
+      parameters: tool.schema || { type: "object", properties: {} },
+      ...(tool.strict !== undefined ? { strict: tool.strict } : {}),
+    },
+  }));
+}
+
+/**
+ * Execute all tool calls of one turn in parallel, keeping their original order
+ */
+async function executeToolCalls(
+  tools: Record<string, ExnestTool>,
+  toolCalls: ExnestToolCall[],
+  messages: ExnestMessage[],
+  step: number
+): Promise<ExnestToolResult[]> {
+  return Promise.all(
+    toolCalls.map(async (toolCall): Promise<ExnestToolResult> => {
+      // Own entries only, so names like "constructor" or "toString" are unknown tools
+      const name = toolCall.function.name;
+      const tool = Object.prototype.hasOwnProperty.call(tools, name) ? tools[name] : undefined;
+      if (!tool) {
+        return errorResult(toolCall, `Unknown tool: ${name}`);
+      }
+
+      let args: any;
+      try {
+        args = toolCall.function.arguments ? JSON.parse(toolCall.function.arguments) : {};
+      } catch (error: any) {
+        return errorResult(toolCall, `Invalid JSON arguments: ${error.message}`);
+      }
+
+      try {
+        const output = await tool.handler(args, { toolCall, messages, step });
+        return { toolCall, content: typeof output === "string" ? output : JSON.stringify(output ?? null) };
+      } catch (error: any) {
+        return errorResult(toolCall, error?.message || String(error));
+      }
+    })
+  );
+}
+
+function errorResult(toolCall: ExnestToolCall, error: string): ExnestToolResult {
+  return { toolCall, content: JSON.stringify({ error }), error };
+}
+
+function toToolMessage(result: ExnestToolResult): ExnestMessage {
+  return { role: "tool", tool_call_id: result.toolCall.id, content: result.content };
+}
@@ -0,0 +1,32 @@
+/**
+ * ExnestAI Transport
+ * Injectable fetch, default headers and the SDK User-Agent shared by both clients
+ */
+
+// Same contract as the global fetch; wrap undici, node-fetch with an agent, or a test double
+export type ExnestFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ExnestTransportOptions {
+  fetch?: ExnestFetch;               // Default: the global fetch at call time
+  headers?: Record<string, string>;  // Sent with every request; the SDK still sets Authorization
+  userAgent?: string;                // Appended to the SDK User-Agent, e.g. "my-app/2.3.0"
+}
+
+// Must equal the package.json version; exnestai/test/transport.test.ts fails when they drift apart
+export const SDK_VERSION = "1.1.0";
+
+/**
+ * User-Agent header value, with an optional suffix identifying the calling application
+ */
+export function buildUserAgent(suffix?: string): string {
+  const base = `ExnestAI-Client/${SDK_VERSION}`;
+  return suffix?.trim() ? `${base} ${suffix.trim()}` : base;
+}
+
+/**
+ * The injected fetch, or one that looks up the global fetch on every call
+ * (so a global replaced after the client was created, e.g. by a test, is still used)
+ */
+export function resolveFetch(fetch?: ExnestFetch): ExnestFetch {
+  return fetch || ((url, init) => globalThis.fetch(url, init));
+}
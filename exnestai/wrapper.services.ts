@@ -3,9 +3,13 @@
  * Simple wrapper class following the FazzaAI pattern for basic AI interactions
  */
 
+import type { ExnestMessageContent } from "./content";
+import { parseSSEJson, readBodyChunks } from "./sse";
+import { buildUserAgent, resolveFetch, type ExnestFetch, type ExnestTransportOptions } from "./transport";
+
 export interface ExnestMessage {
   role: "system" | "user" | "assistant";
-  content: string;
+  content: ExnestMessageContent;  // Plain text or multimodal content parts
 }
 
 export interface ExnestResponse {
@@ -78,13 +82,35 @@ export interface ExnestStreamChunk {
   }>;
 }
 
+export interface ExnestCompletionStreamChunk {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    text: string;
+    finish_reason: string | null;
+  }>;
+}
+
 export class ExnestAI {
   private apiKey: string;
   private baseUrl: string;
-
-  constructor(apiKey: string, baseUrl = process.env.EXNEST_API_URL || "https://api.exnest.app/v1") {
+  private fetch: ExnestFetch;
+  private headers: Record<string, string>;
+  private userAgent: string;
+
+  constructor(
+    apiKey: string,
+    baseUrl = process.env.EXNEST_API_URL || "https://api.exnest.app/v1",
+    options: ExnestTransportOptions = {}
+  ) {
     this.apiKey = apiKey;
     this.baseUrl = baseUrl;
+    this.fetch = resolveFetch(options.fetch);
+    this.headers = options.headers || {};
+    this.userAgent = buildUserAgent(options.userAgent);
   }
 
   /**
@@ -110,12 +136,9 @@ export class ExnestAI {
         requestBody.max_tokens = maxTokens;
       }
 
-      const response = await fetch(`${this.baseUrl}/completions`, {
+      const response = await this.fetch(`${this.baseUrl}/completions`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
+        headers: this.requestHeaders({ "Content-Type": "application/json" }),
         body: JSON.stringify(requestBody),
       });
 
@@ -158,12 +181,9 @@ export class ExnestAI {
         requestBody.max_tokens = maxTokens;
       }
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await this.fetch(`${this.baseUrl}/chat/completions`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
+        headers: this.requestHeaders({ "Content-Type": "application/json" }),
         body: JSON.stringify(requestBody),
       });
 
@@ -188,13 +208,13 @@ export class ExnestAI {
    * @param model - Model identifier
    * @param prompt - Single prompt string
    * @param maxTokens - Optional maximum tokens to generate
-   * @returns AsyncGenerator<ExnestStreamChunk>
+   * @returns AsyncGenerator<ExnestCompletionStreamChunk>
    */
   async *streamCompletion(
     model: string,
     prompt: string,
     maxTokens?: number
-  ): AsyncGenerator<ExnestStreamChunk, void, unknown> {
+  ): AsyncGenerator<ExnestCompletionStreamChunk, void, unknown> {
     try {
       const requestBody: any = {
         model,
@@ -207,13 +227,9 @@ export class ExnestAI {
         requestBody.max_tokens = maxTokens;
       }
 
-      const response = await fetch(`${this.baseUrl}/completions`, {
+      const response = await this.fetch(`${this.baseUrl}/completions`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-          "Accept": "text/event-stream",
-        },
+        headers: this.requestHeaders({ "Content-Type": "application/json", "Accept": "text/event-stream" }),
         body: JSON.stringify(requestBody),
       });
 
@@ -221,37 +237,9 @@ export class ExnestAI {
         throw new Error("Response body is null");
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      try {
-        let buffer = "";
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") {
-                return;
-              }
-              try {
-                const chunk = JSON.parse(data);
-                yield chunk;
-              } catch (parseError) {
-                console.error("Failed to parse stream chunk:", parseError);
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
+      yield* parseSSEJson<ExnestCompletionStreamChunk>(readBodyChunks(response.body), {
+        onParseError: (parseError) => console.error("Failed to parse stream chunk:", parseError),
+      });
     } catch (error: any) {
       throw new Error(`Streaming failed: ${error.message}`);
     }
@@ -281,13 +269,9 @@ export class ExnestAI {
         requestBody.max_tokens = maxTokens;
       }
 
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      const response = await this.fetch(`${this.baseUrl}/chat/completions`, {
         method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${this.apiKey}`,
-          "Accept": "text/event-stream",
-        },
+        headers: this.requestHeaders({ "Content-Type": "application/json", "Accept": "text/event-stream" }),
         body: JSON.stringify(requestBody),
       });
 
@@ -295,37 +279,9 @@ export class ExnestAI {
         throw new Error("Response body is null");
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-
-      try {
-        let buffer = "";
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          const lines = buffer.split("\n");
-          buffer = lines.pop() || "";
-
-          for (const line of lines) {
-            if (line.startsWith("data: ")) {
-              const data = line.slice(6);
-              if (data === "[DONE]") {
-                return;
-              }
-              try {
-                const chunk = JSON.parse(data);
-                yield chunk;
-              } catch (parseError) {
-                console.error("Failed to parse stream chunk:", parseError);
-              }
-            }
-          }
-        }
-      } finally {
-        reader.releaseLock();
-      }
+      yield* parseSSEJson<ExnestStreamChunk>(readBodyChunks(response.body), {
+        onParseError: (parseError) => console.error("Failed to parse stream chunk:", parseError),
+      });
     } catch (error: any) {
       throw new Error(`Streaming failed: ${error.message}`);
     }
@@ -352,11 +308,9 @@ export class ExnestAI {
    */
   async getModels(): Promise<ExnestResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/models`, {
+      const response = await this.fetch(`${this.baseUrl}/models`, {
         method: "GET",
-        headers: {
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
+        headers: this.requestHeaders({}),
       });
 
       const result = await response.json();
@@ -382,11 +336,9 @@ export class ExnestAI {
    */
   async getModel(modelName: string): Promise<ExnestResponse> {
     try {
-      const response = await fetch(`${this.baseUrl}/models/${modelName}`, {
+      const response = await this.fetch(`${this.baseUrl}/models/${modelName}`, {
         method: "GET",
-        headers: {
-          "Authorization": `Bearer ${this.apiKey}`,
-        },
+        headers: this.requestHeaders({}),
       });
 
       const result = await response.json();
@@ -438,4 +390,17 @@ export class ExnestAI {
   setBaseUrl(newBaseUrl: string): void {
     this.baseUrl = newBaseUrl;
   }
+
+  /**
+   * SDK User-Agent, default headers, request headers and the Authorization header
+   * @private
+   */
+  private requestHeaders(headers: Record<string, string>): Record<string, string> {
+    return {
+      "User-Agent": this.userAgent,
+      ...this.headers,
+      ...headers,
+      "Authorization": `Bearer ${this.apiKey}`,
+    };
+  }
 }
\ No newline at end of file